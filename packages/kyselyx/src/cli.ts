@@ -1,25 +1,95 @@
-import { Command } from "commander";
+import { Command, InvalidArgumentError, Option } from "commander";
 import "tsx/esm";
-import { loadKyselyxConfig } from "./config.js";
+import { CONFIG_FILE_PATHS, loadKyselyxConfig } from "./config.js";
+import * as init from "./init.js";
+import { LINT_SEVERITIES } from "./lint.js";
 import * as migrate from "./migrate.js";
 import * as misc from "./misc.js";
 import * as seed from "./seed.js";
+import { DIALECTS } from "./templates.js";
+
+/**
+ * Parses the value of a `--step` option.
+ */
+function parseStep(value: string): number {
+  const step = Number(value);
+  if (!Number.isInteger(step) || step < 1) throw new InvalidArgumentError("Must be a positive integer.");
+  return step;
+}
 
 async function main() {
   const program = new Command();
   program.exitOverride(() => process.exit(0));
   program.name("kyselyx").description("A CLI for executing Kysely migrations and seeds.");
-  program.option("-c, --config <path>", "Path to the Kyselyx configuration file.");
-  program.option("-m, --migration-folder <path>", "Path to the folder where migrations are stored.");
-  program.option("-s, --seed-folder <path>", "Path to the folder where seeds are stored.");
+  program.option("-c, --config <path>", "Path to the Kyselyx configuration file. [env: KYSELYX_CONFIG]");
+  program.option(
+    "-m, --migration-folder <path>",
+    "Path to the folder where migrations are stored. [env: KYSELYX_MIGRATIONS_FOLDER]",
+  );
+  program.option("-s, --seed-folder <path>", "Path to the folder where seeds are stored. [env: KYSELYX_SEEDS_FOLDER]");
+  program.option("-e, --env <name>", "The environment from the configuration file to use. [env: KYSELYX_ENV]");
+  program.option(
+    "--seed-lock-timeout <ms>",
+    "Milliseconds to wait for another process to finish running seeds. [env: KYSELYX_SEED_LOCK_TIMEOUT]",
+    Number,
+  );
+  program.option(
+    "--migration-table <name>",
+    "The table that records applied migrations. [env: KYSELYX_MIGRATION_TABLE_NAME]",
+  );
+  program.option(
+    "--migration-lock-table <name>",
+    "The table that holds the migration lock. [env: KYSELYX_MIGRATION_LOCK_TABLE_NAME]",
+  );
+  program.option("--seed-table <name>", "The table that records applied seeds. [env: KYSELYX_SEED_TABLE_NAME]");
+  program.option("--seed-lock-table <name>", "The table that holds the seed lock. [env: KYSELYX_SEED_LOCK_TABLE_NAME]");
+  program.option("--metadata-schema <name>", "The schema of the metadata tables. [env: KYSELYX_METADATA_SCHEMA]");
+  program.option(
+    "--database-url <url>",
+    "The connection string, set as DATABASE_URL before the configuration file is loaded. [env: KYSELYX_DATABASE_URL]",
+  );
+  program.addHelpText(
+    "after",
+    "\nOptions take precedence over their KYSELYX_* environment variables, which take precedence over the configuration file.",
+  );
 
-  await loadKyselyxConfig(program.opts()).then((res) => {
-    if (res.isErr()) {
-      console.error(res.error.message);
-      process.exit(1);
-    }
+  // the config is loaded once the options have been parsed, 'init' runs before there is a config
+  program.hook("preAction", async (_, actionCommand) => {
+    if (actionCommand.name() === "init") return;
+    const { config, migrationFolder, seedFolder, env, seedLockTimeout, ...opts } = program.opts();
+    const cli = {
+      file: config,
+      migrationsFolder: migrationFolder,
+      seedsFolder: seedFolder,
+      env,
+      seedLockTimeout,
+      migrationTableName: opts.migrationTable,
+      migrationLockTableName: opts.migrationLockTable,
+      seedTableName: opts.seedTable,
+      seedLockTableName: opts.seedLockTable,
+      metadataSchema: opts.metadataSchema,
+      databaseUrl: opts.databaseUrl,
+    };
+    await loadKyselyxConfig(cli).then((res) => {
+      if (res.isErr()) {
+        console.error(res.error.message);
+        process.exit(1);
+      }
+    });
   });
 
+  // define the command for creating a project
+  program
+    .command("init")
+    .addOption(new Option("--dialect <name>", "The database the config connects to.").choices(DIALECTS))
+    .option("--js", "Generate a JavaScript config file.")
+    .addOption(new Option("--location <path>", "The path of the config file.").choices(CONFIG_FILE_PATHS))
+    .summary("Creates a new Kyselyx project")
+    .description(
+      "Writes a typed Kyselyx config file, creates the migrations and seeds folders, and adds scripts to the package.json. Any option not supplied is asked for interactively.",
+    )
+    .action(init.init);
+
   // define commands for migrations
   program
     .command("db:migrate")
@@ -27,6 +97,9 @@ async function main() {
       "[name]",
       "The name of the last migration to run. The name does not need to include the timestamp as long as it is unique. Ex: `1730972486240_users` or `users`.",
     )
+    .option("--dry-run", "Print the SQL that would be executed without running it.")
+    .option("--step <n>", "The number of pending migrations to apply, instead of a name.", parseStep)
+    .option("--allow-drift", "Apply migrations even if applied migration files have been modified.")
     .summary("Run pending migrations")
     .description("Runs all pending migrations up to (and including) the optionally specified migration.")
     .action(migrate.migrate);
@@ -36,6 +109,8 @@ async function main() {
       "[name]",
       "The name of the migration to revert. The name does not need to include the timestamp as long as it is unuque. Ex: `1730972486240_users` or `users`.",
     )
+    .option("--dry-run", "Print the SQL that would be executed without running it.")
+    .option("--step <n>", "The number of applied migrations to revert, instead of a name.", parseStep)
     .summary("Reverts applied migrations")
     .description(
       "Reverts a single migration, or all migrations up to (and including) the optionally specified migration. Any seeds with a timestamp greater than the reverted migration will also be reverted.",
@@ -43,14 +118,76 @@ async function main() {
     .action(migrate.undo);
   program
     .command("db:migrate:undo:all")
+    .option("-y, --yes", "Skip the confirmation prompt.")
+    .option("--allow-protected", "Run the command even if the environment is protected.")
     .summary("Reverts all applied migrations")
     .description("Reverts all applied migrations and any seeds with a timestamp greater than the first migration.")
     .action(migrate.undoAll);
+  program
+    .command("db:migrate:redo")
+    .argument(
+      "[name]",
+      "The name of the first migration to redo. The name does not need to include the timestamp as long as it is unique. Ex: `1730972486240_users` or `users`.",
+    )
+    .option("--allow-drift", "Apply migrations even if other applied migration files have been modified.")
+    .summary("Reverts and re-applies migrations")
+    .description(
+      "Reverts the last migration, or all migrations from (and including) the optionally specified migration, and then re-applies them. Any seeds reverted along with the migrations are also re-applied.",
+    )
+    .action(migrate.redo);
   program
     .command("db:migrate:status")
+    .option("--json", "Print the status as JSON.")
     .summary("Shows the status of all migrations")
-    .description("Prints info about each migration and it's status.")
+    .description(
+      "Prints the timestamp, label, status and execution time of each migration, including applied migrations that have been modified.",
+    )
     .action(migrate.status);
+  program
+    .command("db:migrate:baseline")
+    .argument(
+      "<name>",
+      "The name of the last migration to record. The name does not need to include the timestamp as long as it is unique. Ex: `1730972486240_users` or `users`.",
+    )
+    .summary("Records migrations as applied without running them")
+    .description(
+      "Records all migrations up to (and including) the specified migration as applied without running them. Use this to adopt a database whose schema was created by another tool.",
+    )
+    .action(migrate.baseline);
+  program
+    .command("db:migrate:squash")
+    .requiredOption("--until <name>", "The name of the last migration to squash.")
+    .summary("Squashes old migrations into a baseline migration")
+    .description(
+      "Replaces all migrations up to (and including) the specified migration with one baseline migration, generated from the schema they produce on the 'scratchDb' from the config file. Databases which applied the replaced migrations record the baseline as applied in their place. The baseline is applied to the 'scratchDb' before any file is replaced, and the command fails if it can't reproduce the schema.",
+    )
+    .action(migrate.squash);
+  program
+    .command("db:migrate:verify")
+    .summary("Checks every migration and seed can be reverted")
+    .description(
+      "Applies, reverts and re-applies each migration and seed on the 'scratchDb' from the config file. A migration must restore the schema when reverted, and a seed must restore the row count of each table. The scratch database is left empty afterwards.",
+    )
+    .action(migrate.verify);
+  program
+    .command("db:schema:check")
+    .summary("Checks the schema snapshot is up to date")
+    .description(
+      "Applies every migration to the 'scratchDb' from the config file and compares the resulting schema with the schema snapshot file, which is written after each command that applies or reverts migrations. Exits with a non-zero code when they differ.",
+    )
+    .action(migrate.checkSchema);
+  program
+    .command("db:lint")
+    .addOption(
+      new Option("--fail-on <severity>", "The lowest severity that fails the lint, defaults to 'error'.").choices(
+        LINT_SEVERITIES,
+      ),
+    )
+    .summary("Reports risky operations in pending migrations")
+    .description(
+      "Captures the SQL of each pending migration without running it and reports risky operations: dropped tables or columns, NOT NULL columns added without a default, and column type changes. Exits with a non-zero code when a violation is at or above the '--fail-on' severity. Add a 'kyselyx-lint-disable <rule>' comment to a migration to suppress a rule for that migration.",
+    )
+    .action(migrate.lint);
 
   // define commands for seeds
   program
@@ -59,6 +196,8 @@ async function main() {
       "[name]",
       "The name of the last seed to run. The name does not need to include the timestamp as long as it is unique. Ex: `1730972486240_users` or `users`.",
     )
+    .option("--dry-run", "Print the SQL that would be executed without running it.")
+    .option("--step <n>", "The number of pending seeds to apply, instead of a name.", parseStep)
     .summary("Run pending seeds")
     .description("Runs all pending seeds up to (and including) the optionally specified seed.")
     .action(seed.seed);
@@ -68,23 +207,43 @@ async function main() {
       "[name]",
       "The name of the seed to revert. The name does not need to include the timestamp as long as it is unique. Ex: `1730972486240_users` or `users`.",
     )
+    .option("--dry-run", "Print the SQL that would be executed without running it.")
+    .option("--step <n>", "The number of applied seeds to revert, instead of a name.", parseStep)
     .summary("Reverts applied seeds")
     .description("Reverts a single seed, or all seeds up to (and including) the optionally specified seed.")
     .action(seed.undo);
   program
     .command("db:seed:undo:all")
+    .option("-y, --yes", "Skip the confirmation prompt.")
+    .option("--allow-protected", "Run the command even if the environment is protected.")
     .summary("Reverts all applied seeds")
     .description("Reverts all applied seeds.")
     .action(seed.undoAll);
+  program
+    .command("db:seed:baseline")
+    .argument(
+      "<name>",
+      "The name of the last seed to record. The name does not need to include the timestamp as long as it is unique. Ex: `1730972486240_users` or `users`.",
+    )
+    .summary("Records seeds as applied without running them")
+    .description(
+      "Records all seeds up to (and including) the specified seed as applied without running them. The seeds must be bound to applied migrations.",
+    )
+    .action(seed.baseline);
   program
     .command("db:seed:status")
+    .option("--json", "Print the status as JSON.")
     .summary("Shows the status of all seeds")
-    .description("Prints info about each seed and it's status.")
+    .description(
+      "Prints the timestamp, label, status, execution time and bound migration of each seed, including applied seeds that have been modified.",
+    )
     .action(seed.status);
 
   // define commands that operate on both seeds & migrations
   program
     .command("db:purge")
+    .option("-y, --yes", "Skip the confirmation prompt.")
+    .option("--allow-protected", "Run the command even if the environment is protected.")
     .summary("Purges the database")
     .description(
       "Reverts all seeds, migrations, and deletes all metadata (locks, seed/migration metadata) from the database. This is an escape hatch to reset a database to 'like new'.",
@@ -92,11 +251,14 @@ async function main() {
     .action(misc.purge);
   program
     .command("db:setup")
+    .option("--allow-drift", "Apply migrations even if applied migration files have been modified.")
     .summary("Runs all pending migrations and seeds")
     .description("Applies all pending migrations and seeds.")
     .action(misc.setup);
   program
     .command("db:reset")
+    .option("-y, --yes", "Skip the confirmation prompt.")
+    .option("--allow-protected", "Run the command even if the environment is protected.")
     .summary("Purges the database and then runs all migrations and seeds")
     .description(
       "First applies a 'db:purge' and then a 'db:setup'. This will clear all data in the database and then reapply all migrations and seeds.",
@@ -108,9 +270,11 @@ async function main() {
     .command("generate:migration")
     .argument("<name>", "The name of the migration to create.")
     .option("--js", "Generate a JavaScript migration file.")
+    .option("--from-diff", "Generate the migration from the changes between the schema snapshot and the database.")
+    .option("--target <file>", "With '--from-diff', diff against the schema exported by this module instead.")
     .summary("Generates a new migration file")
     .description(
-      "Creates a new migration file with the specified name. Note that the name will have a timestamp prepended to it.",
+      "Creates a new migration file with the specified name. Note that the name will have a timestamp prepended to it. With '--from-diff' the 'up' function makes the table, column, constraint and index changes found between the schema snapshot and the database, and the 'down' function reverts them. Changes which can't be written as a migration, such as views, fail the command. Note that the database already has these changes.",
     )
     .action(migrate.generate);
   program
@@ -122,6 +286,13 @@ async function main() {
       "Creates a new seed file with the specified name. Note that the name will have a timestamp prepended to it.",
     )
     .action(seed.generate);
+  program
+    .command("generate:types")
+    .summary("Generates the Database type of the migrated schema")
+    .description(
+      "Introspects the database and writes a TypeScript 'Database' interface describing each table to the 'types.outFile' from the config file. Set 'types.onMigrate' to regenerate the types whenever migrations are applied or reverted.",
+    )
+    .action(misc.generateTypes);
 
   await program.parseAsync();
 }
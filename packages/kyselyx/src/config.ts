@@ -4,16 +4,58 @@ import { err, ok, type Result, ResultAsync } from "neverthrow";
 import path from "path";
 import { z } from "zod";
 import { ConfigError } from "./errors.js";
+import { LINT_RULES, LINT_SEVERITIES } from "./lint.js";
 
 export const MIGRATION_TABLE_NAME = "kyselyx_migration";
 export const MIGRATION_LOCK_TABLE_NAME = "kyselyx_migration_lock";
 export const SEED_TABLE_NAME = "kyselyx_seed";
+export const SEED_LOCK_TABLE_NAME = "kyselyx_seed_lock";
+export const SCHEMA_SNAPSHOT_PATH = "schema.snapshot.json";
+export const DATABASE_TYPES_PATH = "database.ts";
+
+/**
+ * The paths searched for the Kyselyx configuration file when one is not supplied.
+ */
+export const CONFIG_FILE_PATHS = [
+  "kyselyx.config.ts",
+  "kyselyx.config.js",
+  ".config/kyselyx.config.ts",
+  ".config/kyselyx.config.js",
+];
 
 // -------------------------------------------------------------------------------------------------
 // Config File
 // -------------------------------------------------------------------------------------------------
 // These types represent the user-facing configuration file.
 // -------------------------------------------------------------------------------------------------
+const ZEnvironmentConfig = z.object({
+  /**
+   * The data stores for this environment. These are merged over the shared stores, so only the
+   * stores that differ need to be specified.
+   */
+  stores: z
+    .object({ db: z.instanceof(Kysely).optional() })
+    .passthrough()
+    .optional(),
+  /**
+   * The folder where all migrations are stored for this environment.
+   */
+  migrationsFolder: z.string().optional(),
+  /**
+   * The folder where all seeds are stored for this environment.
+   */
+  seedsFolder: z.string().optional(),
+  /**
+   * The scratch database used by `db:migrate:verify` in this environment.
+   */
+  scratchDb: z.instanceof(Kysely).optional(),
+  /**
+   * Refuse to run destructive commands in this environment unless `--allow-protected`, or
+   * `allowProtected` in the programmatic API, is passed.
+   */
+  protected: z.boolean().optional(),
+});
+
 const ZConfigFile = z.object({
   /**
    * The data stores available. There will always be a `db` store which is an instance of Kysely.
@@ -29,12 +71,102 @@ const ZConfigFile = z.object({
    * The folder where all seeds are stored.
    */
   seedsFolder: z.string().default("seeds"),
+  /**
+   * The number of milliseconds to wait for another process to finish running seeds before giving
+   * up, defaults to 60 seconds.
+   */
+  seedLockTimeout: z.number().int().nonnegative().optional(),
+  /**
+   * The name of the table that records applied migrations, defaults to "kyselyx_migration".
+   */
+  migrationTableName: z.string().min(1).optional(),
+  /**
+   * The name of the table that holds the migration lock, defaults to "kyselyx_migration_lock".
+   */
+  migrationLockTableName: z.string().min(1).optional(),
+  /**
+   * The name of the table that records applied seeds, defaults to "kyselyx_seed".
+   */
+  seedTableName: z.string().min(1).optional(),
+  /**
+   * The name of the table that holds the seed lock, defaults to "kyselyx_seed_lock".
+   */
+  seedLockTableName: z.string().min(1).optional(),
+  /**
+   * The schema the metadata tables are created in, for dialects that support schemas such as
+   * Postgres. The schema is created if it does not exist. Together with the table names this lets
+   * several Kyselyx-managed apps share one database.
+   */
+  metadataSchema: z.string().min(1).optional(),
+  /**
+   * An empty database used by `db:migrate:verify` to apply and revert every migration and seed. It
+   * should use the same dialect as the `db` store, and is left empty after verifying.
+   */
+  scratchDb: z.instanceof(Kysely).optional(),
+  /**
+   * The file the schema snapshot is written to after migrations are applied or reverted, defaults
+   * to "schema.snapshot.json". Commit this file so reviewers can see how the schema changes, or set
+   * it to `false` to disable snapshots.
+   */
+  schemaSnapshot: z.union([z.string().min(1), z.literal(false)]).optional(),
+  /**
+   * Options for `generate:types`, which writes a `Database` interface for the migrated schema.
+   * Use it to type the `db` store, for example `new Kysely<Database>(...)`, so seeds are checked.
+   */
+  types: z
+    .object({
+      /**
+       * The file the types are written to, defaults to "database.ts".
+       */
+      outFile: z.string().min(1).optional(),
+      /**
+       * Generate the types whenever migrations are applied or reverted by the CLI.
+       */
+      onMigrate: z.boolean().optional(),
+    })
+    .optional(),
+  /**
+   * Options for `db:lint`.
+   */
+  lint: z
+    .object({
+      /**
+       * The lowest severity that fails the lint, defaults to "error".
+       */
+      failOn: z.enum(LINT_SEVERITIES).optional(),
+      /**
+       * Overrides the severity of each rule, or turns it "off".
+       */
+      rules: z
+        .record(z.enum(Object.keys(LINT_RULES) as [keyof typeof LINT_RULES]), z.enum([...LINT_SEVERITIES, "off"]))
+        .optional(),
+    })
+    .optional(),
+  /**
+   * Refuse to run destructive commands such as `db:purge` and `db:reset` unless
+   * `--allow-protected`, or `allowProtected` in the programmatic API, is passed. This is usually set
+   * on the "production" environment.
+   */
+  protected: z.boolean().optional(),
+  /**
+   * Named environments such as "development", "test", "staging" and "production". The selected
+   * environment is merged over the shared options above. An environment is selected with the
+   * `--env` option or the `KYSELYX_ENV` environment variable, and defaults to "development".
+   */
+  environments: z.record(z.string(), ZEnvironmentConfig).optional(),
 });
 export type DefaultStores = { db: Kysely<any> };
+export interface IEnvironmentConfig<T extends DefaultStores = DefaultStores>
+  extends z.infer<typeof ZEnvironmentConfig> {
+  stores?: Partial<T>;
+}
 export interface IConfigFile<T extends DefaultStores = DefaultStores> extends z.infer<typeof ZConfigFile> {
   stores: T;
+  environments?: Record<string, IEnvironmentConfig<T>>;
 }
 
+export const DEFAULT_ENVIRONMENT = "development";
+
 // -------------------------------------------------------------------------------------------------
 // Config Object
 // -------------------------------------------------------------------------------------------------
@@ -43,34 +175,114 @@ export interface IConfigFile<T extends DefaultStores = DefaultStores> extends z.
 // -------------------------------------------------------------------------------------------------
 const ZConfig = z.object({
   configFile: z.string(),
+  env: z.string().optional(),
+  environmentNames: z.array(z.string()),
   stores: z.object({ db: z.instanceof(Kysely) }).passthrough(),
   migrationsFolder: z.string(),
   seedsFolder: z.string(),
+  seedLockTimeout: z.number().optional(),
+  migrationTableName: z.string(),
+  migrationLockTableName: z.string(),
+  seedTableName: z.string(),
+  seedLockTableName: z.string(),
+  metadataSchema: z.string().optional(),
+  scratchDb: z.instanceof(Kysely).optional(),
+  schemaSnapshot: z.union([z.string(), z.literal(false)]),
+  types: ZConfigFile.shape.types,
+  lint: ZConfigFile.shape.lint,
+  protected: z.boolean().optional(),
 });
 export type IConfig = z.infer<typeof ZConfig>;
 
 // -------------------------------------------------------------------------------------------------
 // CLI Input
 // -------------------------------------------------------------------------------------------------
-// The available options to pass on the CLI.
+// The available options to pass on the CLI. Each option can also be set with a `KYSELYX_*`
+// environment variable. The precedence of each setting, from highest to lowest, is:
+//
+// 1. The CLI option.
+// 2. The `KYSELYX_*` environment variable.
+// 3. The selected environment in the config file.
+// 4. The shared options in the config file.
+// 5. The default.
+//
+// The `db` store is created by the config file, so the connection is overridden by setting
+// `DATABASE_URL` before the config file is loaded. The generated config files read it.
 // -------------------------------------------------------------------------------------------------
-const ZCliOptions = z.object({
-  /**
-   * The path to the Kyselyx configuration file.
-   */
-  file: z.string().optional(),
-  /**
-   * The folder where all migrations are stored. This supercedes the migration folder in the config
-   * file.
-   */
-  migrationsFolder: z.string().optional(),
-  /**
-   * The folder where all seeds are stored. This supercedes the seed folder in the config file.
-   */
-  seedsFolder: z.string().optional(),
-});
+const ZCliOptions = z
+  .object({
+    /**
+     * The path to the Kyselyx configuration file.
+     */
+    file: z.string().min(1).optional(),
+    /**
+     * The folder where all migrations are stored. This supercedes the migration folder in the
+     * config file.
+     */
+    migrationsFolder: z.string().min(1).optional(),
+    /**
+     * The folder where all seeds are stored. This supercedes the seed folder in the config file.
+     */
+    seedsFolder: z.string().min(1).optional(),
+    /**
+     * The name of the environment to use from the config file.
+     */
+    env: z.string().min(1).optional(),
+    /**
+     * The number of milliseconds to wait for the seed lock. This supercedes the seed lock timeout
+     * in the config file.
+     */
+    seedLockTimeout: z.number().int().nonnegative().optional(),
+    /**
+     * The name of the table that records applied migrations. This supercedes the table name in the
+     * config file.
+     */
+    migrationTableName: z.string().min(1).optional(),
+    /**
+     * The name of the table that holds the migration lock. This supercedes the table name in the
+     * config file.
+     */
+    migrationLockTableName: z.string().min(1).optional(),
+    /**
+     * The name of the table that records applied seeds. This supercedes the table name in the
+     * config file.
+     */
+    seedTableName: z.string().min(1).optional(),
+    /**
+     * The name of the table that holds the seed lock. This supercedes the table name in the config
+     * file.
+     */
+    seedLockTableName: z.string().min(1).optional(),
+    /**
+     * The schema the metadata tables are created in. This supercedes the schema in the config file.
+     */
+    metadataSchema: z.string().min(1).optional(),
+    /**
+     * The connection string of the database, set as `DATABASE_URL` before the config file is
+     * loaded.
+     */
+    databaseUrl: z.string().min(1).optional(),
+  })
+  .strict();
 export type ICliOptions = z.infer<typeof ZCliOptions>;
 
+/**
+ * The environment variable that sets each CLI option when the option is not passed.
+ */
+export const CLI_ENV_VARS = {
+  file: "KYSELYX_CONFIG",
+  migrationsFolder: "KYSELYX_MIGRATIONS_FOLDER",
+  seedsFolder: "KYSELYX_SEEDS_FOLDER",
+  env: "KYSELYX_ENV",
+  seedLockTimeout: "KYSELYX_SEED_LOCK_TIMEOUT",
+  migrationTableName: "KYSELYX_MIGRATION_TABLE_NAME",
+  migrationLockTableName: "KYSELYX_MIGRATION_LOCK_TABLE_NAME",
+  seedTableName: "KYSELYX_SEED_TABLE_NAME",
+  seedLockTableName: "KYSELYX_SEED_LOCK_TABLE_NAME",
+  metadataSchema: "KYSELYX_METADATA_SCHEMA",
+  databaseUrl: "KYSELYX_DATABASE_URL",
+} as const satisfies Record<keyof ICliOptions, string>;
+
 // -------------------------------------------------------------------------------------------------
 
 let _config: IConfig | null = null;
@@ -103,34 +315,122 @@ function getDefaultExport(module: any): Result<any, ConfigError> {
 function getConfigFile(filePath: string, cli: ICliOptions) {
   return function (module: any): Result<IConfig, ConfigError> {
     const parseCfg = ZConfigFile.passthrough().safeParse(module);
-    if (parseCfg.success) {
-      let config = { ...parseCfg.data, configFile: filePath };
-      if (cli.migrationsFolder) config.migrationsFolder = cli.migrationsFolder;
-      if (cli.seedsFolder) config.seedsFolder = cli.seedsFolder;
-      return ok(config);
-    } else return err(ConfigError.fromThrown("9105f5")(parseCfg.error));
+    if (parseCfg.success) return resolveConfig(filePath, parseCfg.data, cli);
+    else return err(ConfigError.fromThrown("9105f5")(parseCfg.error));
   };
 }
 
+/**
+ * Merges the selected environment over the shared options of a config file, and then applies the
+ * CLI options. Defaults are applied to the options which are not set.
+ *
+ * @param filePath The path to the config file.
+ * @param file The options of the config file.
+ * @param cli The CLI options, which select the environment.
+ */
+export function resolveConfig(filePath: string, file: IConfigFile, cli: ICliOptions): Result<IConfig, ConfigError> {
+  const { environments, ...shared } = file;
+  const envRes = getEnvironment(environments, cli.env);
+  if (envRes.isErr()) return err(envRes.error);
+
+  let config: IConfig = {
+    ...shared,
+    configFile: filePath,
+    environmentNames: Object.keys(environments ?? {}),
+    migrationsFolder: shared.migrationsFolder ?? "migrations",
+    seedsFolder: shared.seedsFolder ?? "seeds",
+    migrationTableName: shared.migrationTableName ?? MIGRATION_TABLE_NAME,
+    migrationLockTableName: shared.migrationLockTableName ?? MIGRATION_LOCK_TABLE_NAME,
+    seedTableName: shared.seedTableName ?? SEED_TABLE_NAME,
+    seedLockTableName: shared.seedLockTableName ?? SEED_LOCK_TABLE_NAME,
+    schemaSnapshot: shared.schemaSnapshot ?? SCHEMA_SNAPSHOT_PATH,
+  };
+  if (envRes.value) {
+    const [env, { stores, migrationsFolder, seedsFolder, scratchDb, protected: isProtected }] = envRes.value;
+    config = { ...config, env, stores: { ...config.stores, ...stores, db: stores?.db ?? config.stores.db } };
+    if (migrationsFolder) config.migrationsFolder = migrationsFolder;
+    if (seedsFolder) config.seedsFolder = seedsFolder;
+    if (scratchDb) config.scratchDb = scratchDb;
+    if (isProtected !== undefined) config.protected = isProtected;
+  }
+  if (cli.migrationsFolder) config.migrationsFolder = cli.migrationsFolder;
+  if (cli.seedsFolder) config.seedsFolder = cli.seedsFolder;
+  if (cli.seedLockTimeout !== undefined) config.seedLockTimeout = cli.seedLockTimeout;
+  if (cli.migrationTableName) config.migrationTableName = cli.migrationTableName;
+  if (cli.migrationLockTableName) config.migrationLockTableName = cli.migrationLockTableName;
+  if (cli.seedTableName) config.seedTableName = cli.seedTableName;
+  if (cli.seedLockTableName) config.seedLockTableName = cli.seedLockTableName;
+  if (cli.metadataSchema) config.metadataSchema = cli.metadataSchema;
+  return ok(config);
+}
+
+/**
+ * Selects the named environment from the config file. When no name is supplied the default
+ * environment is used if it is defined, otherwise only the shared options apply.
+ *
+ * @see resolveConfig This function is called by `resolveConfig`.
+ */
+function getEnvironment(
+  environments: Record<string, z.infer<typeof ZEnvironmentConfig>> | undefined,
+  name: string | undefined,
+): Result<[string, z.infer<typeof ZEnvironmentConfig>] | null, ConfigError> {
+  const env = environments?.[name ?? DEFAULT_ENVIRONMENT];
+  if (env) return ok([name ?? DEFAULT_ENVIRONMENT, env]);
+  else if (name) return err(new ConfigError("e3a1c7", `Environment "${name}" is not defined in the config file.`));
+  else return ok(null);
+}
+
+/**
+ * Fills in the CLI options that were not passed from the `KYSELYX_*` environment variables, and
+ * validates the result.
+ *
+ * @see loadKyselyxConfig This function is called by `loadKyselyxConfig`.
+ */
+function getCliOptions(cli: ICliOptions): Result<ICliOptions, ConfigError> {
+  const fromEnv = (name: string) => process.env[name] || undefined;
+  const seedLockTimeout = fromEnv(CLI_ENV_VARS.seedLockTimeout);
+
+  const parseCli = ZCliOptions.safeParse({
+    ...cli,
+    file: cli.file ?? fromEnv(CLI_ENV_VARS.file),
+    migrationsFolder: cli.migrationsFolder ?? fromEnv(CLI_ENV_VARS.migrationsFolder),
+    seedsFolder: cli.seedsFolder ?? fromEnv(CLI_ENV_VARS.seedsFolder),
+    env: cli.env ?? fromEnv(CLI_ENV_VARS.env),
+    seedLockTimeout: cli.seedLockTimeout ?? (seedLockTimeout === undefined ? undefined : Number(seedLockTimeout)),
+    migrationTableName: cli.migrationTableName ?? fromEnv(CLI_ENV_VARS.migrationTableName),
+    migrationLockTableName: cli.migrationLockTableName ?? fromEnv(CLI_ENV_VARS.migrationLockTableName),
+    seedTableName: cli.seedTableName ?? fromEnv(CLI_ENV_VARS.seedTableName),
+    seedLockTableName: cli.seedLockTableName ?? fromEnv(CLI_ENV_VARS.seedLockTableName),
+    metadataSchema: cli.metadataSchema ?? fromEnv(CLI_ENV_VARS.metadataSchema),
+    databaseUrl: cli.databaseUrl ?? fromEnv(CLI_ENV_VARS.databaseUrl),
+  });
+  if (parseCli.success) return ok(parseCli.data);
+  else return err(ConfigError.fromThrown("3d8f0a")(parseCli.error));
+}
+
 /**
  * Loads the Kyselyx configuration file and applies the CLI options.
+ *
+ * @param cliOptions The options passed on the CLI, options that are not passed are read from the
+ * `KYSELYX_*` environment variables.
  */
-export async function loadKyselyxConfig(cli: ICliOptions): Promise<Result<void, ConfigError>> {
+export async function loadKyselyxConfig(cliOptions: ICliOptions): Promise<Result<void, ConfigError>> {
+  const cliRes = getCliOptions(cliOptions);
+  if (cliRes.isErr()) return err(cliRes.error);
+  const cli = cliRes.value;
+
   // check for the config file
   let filePath: string | undefined = undefined;
   if (cli.file) {
     filePath = cli.file;
   } else {
-    const possibleFilePaths = [
-      "kyselyx.config.ts",
-      "kyselyx.config.js",
-      ".config/kyselyx.config.ts",
-      ".config/kyselyx.config.js",
-    ];
-    for (const p of possibleFilePaths) if (await fs.exists(p)) filePath = p;
+    for (const p of CONFIG_FILE_PATHS) if (await fs.exists(p)) filePath = p;
   }
   if (!filePath) return err(new ConfigError("884647", "Could not find Kyselyx configuration file."));
 
+  // the config file creates the connection, so it reads the database url when it is imported
+  if (cli.databaseUrl) process.env.DATABASE_URL = cli.databaseUrl;
+
   return ResultAsync.fromPromise(import(path.resolve(process.cwd(), filePath)), ConfigError.fromThrown("7211f9"))
     .andThen(getDefaultExport)
     .andThen(getConfigFile(filePath, cli))
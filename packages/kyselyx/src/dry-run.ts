@@ -0,0 +1,68 @@
+import { randomUUID } from "crypto";
+import {
+  type CompiledQuery,
+  type DatabaseConnection,
+  type Driver,
+  Kysely,
+  type QueryResult,
+  type RootOperationNode,
+} from "kysely";
+
+/**
+ * A driver that records each compiled query instead of sending it to the database. Every query
+ * resolves with no rows.
+ */
+export class CaptureDriver implements Driver {
+  readonly queries: CompiledQuery[] = [];
+
+  async init(): Promise<void> {}
+
+  async acquireConnection(): Promise<DatabaseConnection> {
+    const queries = this.queries;
+    return {
+      async executeQuery<R>(compiledQuery: CompiledQuery): Promise<QueryResult<R>> {
+        queries.push(compiledQuery);
+        return { rows: [] };
+      },
+      async *streamQuery<R>(compiledQuery: CompiledQuery): AsyncIterableIterator<QueryResult<R>> {
+        queries.push(compiledQuery);
+      },
+    };
+  }
+
+  async beginTransaction(): Promise<void> {}
+
+  async commitTransaction(): Promise<void> {}
+
+  async rollbackTransaction(): Promise<void> {}
+
+  async releaseConnection(): Promise<void> {}
+
+  async destroy(): Promise<void> {}
+}
+
+/**
+ * Creates a Kysely instance that compiles queries with the same dialect as `db`, but captures them
+ * instead of executing them. The plugins of `db` are applied so the captured SQL matches what would
+ * be sent, and introspection is still performed against `db` as it is read-only.
+ *
+ * @param db The Kysely instance to mirror.
+ */
+export function createCaptureDb(db: Kysely<any>): { db: Kysely<any>; queries: CompiledQuery[] } {
+  const executor = db.getExecutor();
+  const driver = new CaptureDriver();
+
+  const captureDb = new Kysely<any>({
+    dialect: {
+      createAdapter: () => executor.adapter,
+      createDriver: () => driver,
+      createIntrospector: () => db.introspection,
+      createQueryCompiler: () => ({
+        compileQuery: (node: RootOperationNode) => executor.compileQuery(node, { queryId: randomUUID() }),
+      }),
+    },
+    plugins: [...executor.plugins],
+  });
+
+  return { db: captureDb, queries: driver.queries };
+}
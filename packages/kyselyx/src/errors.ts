@@ -27,3 +27,4 @@ export class MigrationError extends BaseError {}
 export class SeedError extends BaseError {}
 export class KyselyError extends BaseError {}
 export class FileSystemError extends BaseError {}
+export class NotFoundError extends BaseError {}
@@ -1,8 +1,48 @@
 export {
+  DATABASE_TYPES_PATH,
+  DEFAULT_ENVIRONMENT,
   MIGRATION_LOCK_TABLE_NAME,
   MIGRATION_TABLE_NAME,
+  SCHEMA_SNAPSHOT_PATH,
+  SEED_LOCK_TABLE_NAME,
   SEED_TABLE_NAME,
   type DefaultStores,
   type ICliOptions,
   type IConfigFile,
+  type IEnvironmentConfig,
 } from "./config.js";
+export {
+  BaseError,
+  ConfigError,
+  FileSystemError,
+  KyselyError,
+  MigrationError,
+  NotFoundError,
+  SeedError,
+} from "./errors.js";
+export {
+  Kyselyx,
+  type IGenerateOptions,
+  type IKyselyxProps,
+  type ILintResult,
+  type ILintRunOptions,
+  type IRunOptions,
+  type IRunResult,
+  type ISquashResult,
+  type IStatusResult,
+  type IVerifyItem,
+  type IVerifyResult,
+  type KyselyxError,
+} from "./kyselyx.js";
+export { LINT_RULES, LINT_SEVERITIES, type ILintViolation, type LintRule, type LintSeverity } from "./lint.js";
+export {
+  type ForeignKeyAction,
+  type IColumnSnapshot,
+  type IForeignKeySnapshot,
+  type IIndexSnapshot,
+  type ISchemaSnapshot,
+  type ITableSnapshot,
+  type IUniqueConstraintSnapshot,
+} from "./schema.js";
+export { Factory, Faker, defineFactory, type IFactoryOptions } from "./seeder/factory.js";
+export { type SeedResult } from "./seeder/seed.js";
@@ -0,0 +1,142 @@
+import fs from "fs-extra";
+import { err, ok, type Result, ResultAsync } from "neverthrow";
+import ora from "ora";
+import path from "path";
+import readline from "readline/promises";
+import { CONFIG_FILE_PATHS } from "./config.js";
+import { ConfigError, FileSystemError } from "./errors.js";
+import { configTemplateJs, configTemplateTs, type Dialect, DIALECTS } from "./templates.js";
+import { exitFailure } from "./utils.js";
+
+/**
+ * The scripts added to the package.json of a new project.
+ */
+export const PACKAGE_SCRIPTS: Record<string, string> = {
+  "db:migrate": "kyselyx db:migrate",
+  "db:migrate:undo": "kyselyx db:migrate:undo",
+  "db:seed": "kyselyx db:seed",
+  "db:seed:undo": "kyselyx db:seed:undo",
+  "db:setup": "kyselyx db:setup",
+  "db:reset": "kyselyx db:reset",
+};
+
+/**
+ * The package that provides the driver for each dialect.
+ */
+const DRIVERS: Record<Dialect, string> = {
+  sqlite: "better-sqlite3",
+  postgres: "pg",
+  mysql: "mysql2",
+};
+
+export interface IInitOptions {
+  /**
+   * The database the config connects to.
+   */
+  dialect?: Dialect;
+  /**
+   * Generate a JavaScript config file.
+   */
+  js?: boolean;
+  /**
+   * The path of the config file, one of the paths searched when loading the config.
+   */
+  location?: string;
+}
+
+/**
+ * Scaffolds a new Kyselyx project. A typed config file is written, the migrations and seeds folders
+ * are created, and scripts are added to the package.json. Any option not supplied is asked for
+ * when running interactively, otherwise the defaults are used.
+ *
+ * @param opts Options for running the script.
+ * @param opts.dialect The database the config connects to.
+ * @param opts.js Generate a JavaScript config file.
+ * @param opts.location The path of the config file.
+ */
+export async function init(opts: IInitOptions = {}) {
+  // refuse to overwrite an existing config
+  const existing = CONFIG_FILE_PATHS.find((p) => fs.existsSync(p));
+  if (existing) exitFailure(new ConfigError("2f8c41", `A Kyselyx configuration file already exists: ${existing}`));
+
+  const answers = (await getAnswers(opts)).match((i) => i, exitFailure);
+
+  // create the project files
+  let feed = ora({ stream: process.stdout }).start("Creating Kyselyx project ...");
+  const res = await scaffold(answers);
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
+
+  feed.succeed(`Created config file: "${answers.location}"`);
+  if (res.value.length > 0) console.log(`Added package.json scripts: ${res.value.join(", ")}`);
+  console.log(`Install the "${DRIVERS[answers.dialect]}" package to connect to the database.`);
+}
+
+/**
+ * Resolves the dialect, language and location of the config file from the options, asking for any
+ * that are missing when running interactively.
+ *
+ * @param opts The options supplied on the CLI.
+ */
+async function getAnswers(opts: IInitOptions): Promise<Result<Required<IInitOptions>, ConfigError>> {
+  if (opts.location && !CONFIG_FILE_PATHS.includes(opts.location)) {
+    const message = `The config location must be one of: ${CONFIG_FILE_PATHS.join(", ")}.`;
+    return err(new ConfigError("a70d3e", message));
+  }
+  if (opts.location && opts.js && !opts.location.endsWith(".js")) {
+    return err(new ConfigError("c1e5b9", `A JavaScript config cannot be written to "${opts.location}".`));
+  }
+
+  const rl = process.stdin.isTTY ? readline.createInterface({ input: process.stdin, output: process.stdout }) : null;
+  const ask = async <T extends string>(question: string, choices: readonly T[]): Promise<T> => {
+    if (!rl) return choices[0]!;
+    while (true) {
+      const answer = (await rl.question(`${question} (${choices.join(", ")}) [${choices[0]}] `)).trim();
+      if (!answer) return choices[0]!;
+      const choice = choices.find((it) => it === answer);
+      if (choice) return choice;
+      console.log(`Please choose one of: ${choices.join(", ")}.`);
+    }
+  };
+
+  try {
+    const dialect = opts.dialect ?? (await ask("Which database do you use?", DIALECTS));
+    let js = opts.js ?? opts.location?.endsWith(".js");
+    js ??= (await ask("Which language should the config use?", ["ts", "js"] as const)) === "js";
+    const locations = CONFIG_FILE_PATHS.filter((p) => p.endsWith(js ? ".js" : ".ts"));
+    const location = opts.location ?? (await ask("Where should the config be written?", locations));
+
+    return ok({ dialect, js, location });
+  } finally {
+    rl?.close();
+  }
+}
+
+/**
+ * Writes the config file, creates the migrations and seeds folders, and adds any missing scripts to
+ * the package.json if there is one.
+ *
+ * @returns The names of the scripts added to the package.json.
+ */
+async function scaffold({ dialect, js, location }: Required<IInitOptions>): Promise<Result<string[], FileSystemError>> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      await fs.ensureDir(path.dirname(location));
+      await fs.writeFile(location, js ? configTemplateJs(dialect) : configTemplateTs(dialect));
+      await fs.ensureDir("migrations");
+      await fs.ensureDir("seeds");
+
+      if (!(await fs.exists("package.json"))) return [];
+      const pkg = await fs.readJson("package.json");
+      const scripts: Record<string, string> = pkg.scripts ?? {};
+      const added = Object.keys(PACKAGE_SCRIPTS).filter((name) => !(name in scripts));
+      for (const name of added) scripts[name] = PACKAGE_SCRIPTS[name]!;
+      await fs.writeJson("package.json", { ...pkg, scripts }, { spaces: 2 });
+
+      return added;
+    })(),
+    FileSystemError.fromThrown("e84b07"),
+  );
+}
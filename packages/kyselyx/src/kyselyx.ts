@@ -0,0 +1,1435 @@
+import { randomBytes } from "crypto";
+import fs from "fs-extra";
+import {
+  type CompiledQuery,
+  type Kysely,
+  type MigrationResult,
+  type Migrator,
+  NO_MIGRATIONS,
+  type NoMigrations,
+} from "kysely";
+import { err, ok, type Result, ResultAsync } from "neverthrow";
+import path from "path";
+import { DATABASE_TYPES_PATH, type DefaultStores, type IConfig, type IConfigFile, resolveConfig } from "./config.js";
+import { createCaptureDb } from "./dry-run.js";
+import { ConfigError, FileSystemError, KyselyError, MigrationError, NotFoundError, SeedError } from "./errors.js";
+import {
+  getSuppressedRules,
+  type ILintViolation,
+  LINT_RULES,
+  lintQuery,
+  type LintSeverity,
+  meetsSeverity,
+} from "./lint.js";
+import { diffRowCounts, diffSnapshots, getRowCounts, getSchemaSnapshot, type ISchemaSnapshot } from "./schema.js";
+import { NO_SEEDS, type NoSeeds, type SeedResult } from "./seeder/seed.js";
+import {
+  baselineMigrationTemplate,
+  databaseTypesTemplate,
+  migrationFromDiffTemplate,
+  migrationTemplateJs,
+  migrationTemplateTs,
+  seedTemplateJs,
+  seedTemplateTs,
+} from "./templates.js";
+import {
+  type AppliedMigration,
+  type AppliedSeed,
+  applySquashes,
+  createMigrator,
+  createSeeder,
+  doesNameMatch,
+  getChecksums,
+  getDialect,
+  getDrifted,
+  getItemName,
+  getMetadataTables,
+  getMigrations,
+  getReplaced,
+  getSeeds,
+  getTargetSeed,
+  isNoMigrations,
+  isNoSeeds,
+  type Migration,
+  recordChecksums,
+  type Seed,
+  type UnappliedMigration,
+  type UnappliedSeed,
+} from "./utils.js";
+
+export type KyselyxError = ConfigError | FileSystemError | KyselyError | MigrationError | NotFoundError | SeedError;
+
+export interface IKyselyxProps<T extends DefaultStores = DefaultStores> extends IConfigFile<T> {
+  /**
+   * The path to the Kyselyx configuration file. This is used to type the stores in generated seed
+   * files, defaults to "kyselyx.config.ts".
+   */
+  configFile?: string;
+  /**
+   * The environment to run in, its options in `environments` are merged over the shared options.
+   * Defaults to "development" when that environment is defined. Seeds which export `environments`,
+   * or are in a subfolder of the seeds folder named after one of the `environments`, are skipped in
+   * other environments and when no environment is selected.
+   */
+  env?: string;
+  /**
+   * The names of the environments when `environments` is not passed, such as in a config already
+   * resolved by the CLI. Only these subfolders of the seeds folder hold environment seeds.
+   */
+  environmentNames?: string[];
+}
+
+/**
+ * The per-item outcomes of an operation that applies or reverts migrations and seeds.
+ */
+export interface IRunResult {
+  /**
+   * The result of each migration that was applied or reverted, in the order they were executed.
+   */
+  migrations: MigrationResult[];
+  /**
+   * The result of each seed that was applied or reverted, in the order they were executed.
+   */
+  seeds: SeedResult[];
+  /**
+   * The queries each migration and seed would execute, keyed by name. This is only set for dry
+   * runs, in which case every result has the status `NotExecuted`.
+   */
+  queries?: Record<string, CompiledQuery[]>;
+}
+
+export interface IRunOptions {
+  /**
+   * Capture the SQL each migration or seed would execute instead of running it. The database is
+   * not modified.
+   */
+  dryRun?: boolean;
+  /**
+   * Apply migrations even when the files of applied migrations have changed since they were
+   * applied. By default `migrate` refuses to run when it detects drift.
+   */
+  allowDrift?: boolean;
+  /**
+   * The number of migrations or seeds to apply or revert, instead of targeting a name. Reverting
+   * migrations still reverts the seeds bound to them, and seeds are still only applied up to the
+   * last applied migration.
+   */
+  step?: number;
+  /**
+   * Run `undoAll`, `undoAllSeeds`, `purge` or `reset` even if the environment is `protected`. By
+   * default they refuse to run, unless `dryRun` is set.
+   */
+  allowProtected?: boolean;
+}
+
+export interface IStatusResult {
+  migrations: {
+    allMigrations: Migration[];
+    appliedMigrations: AppliedMigration[];
+    unappliedMigrations: UnappliedMigration[];
+    /**
+     * Applied migrations whose file has changed since they were applied.
+     */
+    driftedMigrations: AppliedMigration[];
+  };
+  seeds: {
+    allSeeds: Seed[];
+    appliedSeeds: AppliedSeed[];
+    unappliedSeeds: UnappliedSeed[];
+    /**
+     * Applied seeds whose file has changed since they were applied.
+     */
+    driftedSeeds: AppliedSeed[];
+    /**
+     * Seeds which don't run in the current environment.
+     */
+    skippedSeeds: Seed[];
+  };
+}
+
+export interface ILintResult {
+  /**
+   * The names of the pending migrations that were linted.
+   */
+  migrations: string[];
+  violations: ILintViolation[];
+  /**
+   * Violations disabled by a `kyselyx-lint-disable` comment in the migration file.
+   */
+  suppressed: ILintViolation[];
+  /**
+   * True if any violation is at or above the `failOn` severity.
+   */
+  failed: boolean;
+}
+
+/**
+ * The outcome of verifying a migration or seed can be reverted.
+ */
+export interface IVerifyItem {
+  name: string;
+  reversible: boolean;
+  /**
+   * How the database differs after reverting the item, or the error thrown while reverting or
+   * re-applying it.
+   */
+  problems: string[];
+}
+
+export interface IVerifyResult {
+  migrations: IVerifyItem[];
+  seeds: IVerifyItem[];
+}
+
+export interface ISquashResult {
+  /**
+   * The name of the baseline migration.
+   */
+  migration: string;
+  /**
+   * The names of the migrations replaced by the baseline.
+   */
+  squashed: string[];
+}
+
+export interface ILintRunOptions {
+  /**
+   * The lowest severity that fails the lint. This supercedes `lint.failOn` in the config.
+   */
+  failOn?: LintSeverity;
+}
+
+export interface IGenerateOptions {
+  /**
+   * Generate a JavaScript file instead of a TypeScript file.
+   */
+  js?: boolean;
+  /**
+   * Generate a migration from the changes between the schema snapshot and the database, only used
+   * for migrations. Changes which can't be written as a migration, such as views, are returned as an
+   * error.
+   */
+  fromDiff?: boolean;
+  /**
+   * The path to a module whose default export is the target `ISchemaSnapshot`, used instead of the
+   * database with `fromDiff`.
+   */
+  target?: string;
+}
+
+/**
+ * The programmatic API for Kyselyx.
+ *
+ * Each method returns a `Result` and never exits the process, making it safe to use from test
+ * harnesses and deploy scripts. The CLI is a presentation layer over this class.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { Kyselyx } from "kyselyx";
+ * import config from "./kyselyx.config.js";
+ *
+ * const kyselyx = new Kyselyx(config);
+ * const res = await kyselyx.setup();
+ * if (res.isErr()) throw res.error;
+ * ```
+ */
+export class Kyselyx {
+  readonly #config: IConfig;
+
+  /**
+   * The selected environment is merged over the shared options with the same precedence as the
+   * CLI, see `resolveConfig`.
+   *
+   * @throws {ConfigError} If `env` names an environment which is not defined in `environments`.
+   */
+  constructor(props: IKyselyxProps) {
+    const { configFile = "kyselyx.config.ts", env, environmentNames = [], ...file } = props;
+
+    // a config without environments, such as one already resolved by the CLI, only records `env`
+    // and the names of the environments it was resolved from
+    const configRes = resolveConfig(configFile, file, { env: file.environments ? env : undefined });
+    if (configRes.isErr()) throw configRes.error;
+    this.#config = {
+      ...configRes.value,
+      env: configRes.value.env ?? env,
+      environmentNames: file.environments ? configRes.value.environmentNames : environmentNames,
+    };
+  }
+
+  /**
+   * The resolved configuration used by this instance.
+   */
+  get config(): Readonly<IConfig> {
+    return this.#config;
+  }
+
+  /**
+   * Applies all migrations up to the latest migration, or to the specified migration.
+   *
+   * @param name The name of the migration to migrate to.
+   * @param opts Options for running the migrations.
+   */
+  async migrate(name?: string, opts: IRunOptions = {}): Promise<Result<IRunResult, KyselyxError>> {
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+    const migrator = migratorRes.value;
+
+    const migrationsRes = await this.#getMigrations(migrator);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+    const { allMigrations, unappliedMigrations } = migrationsRes.value;
+
+    const stepRes = checkStep("a4c1f0", name, opts.step);
+    if (stepRes.isErr()) return err(stepRes.error);
+
+    // find the migration
+    let migration: Migration | undefined;
+    if (name) migration = allMigrations.find(doesNameMatch(name));
+    else if (opts.step) migration = unappliedMigrations.at(Math.min(opts.step, unappliedMigrations.length) - 1);
+    else migration = allMigrations.at(-1);
+
+    if (!migration) {
+      if (name) return err(new NotFoundError("40f5a0", "Could not find migration to migrate to."));
+      else return ok({ migrations: [], seeds: [] });
+    }
+
+    // refuse to run when applied migrations have been modified
+    if (!opts.allowDrift) {
+      const driftRes = await this.#checkDrift();
+      if (driftRes.isErr()) return err(driftRes.error);
+    }
+
+    if (opts.dryRun) return this.#dryRun(null, planTo(allMigrations, migration.name));
+
+    // apply the migrations
+    const { error, results = [] } = await migrator.migrateTo(migration.name);
+    if (error) return err(migrationFailure("1ac167", error, results));
+
+    const recordRes = await this.#recordChecksums(this.#config.migrationTableName, this.#config.migrationsFolder);
+    if (recordRes.isErr()) return err(recordRes.error);
+
+    return ok({ migrations: results, seeds: [] });
+  }
+
+  /**
+   * Reverts the last migration, or all migrations up to (and including) the specified migration.
+   * Any seeds with a timestamp greater than the reverted migration are also reverted.
+   *
+   * @param name The name of the migration to revert.
+   * @param opts Options for running the migrations.
+   */
+  async undo(name?: string, opts: IRunOptions = {}): Promise<Result<IRunResult, KyselyxError>> {
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+    const migrator = migratorRes.value;
+
+    const migrationsRes = await this.#getMigrations(migrator);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+    const { appliedMigrations } = migrationsRes.value;
+
+    const stepRes = checkStep("0e7d2b", name, opts.step);
+    if (stepRes.isErr()) return err(stepRes.error);
+
+    // find the migration to rollback to
+    let migration: Migration | NoMigrations | undefined;
+    if (name) {
+      const namedMigrationIdx = appliedMigrations.findIndex(doesNameMatch(name));
+      if (namedMigrationIdx === 0) migration = NO_MIGRATIONS;
+      else if (namedMigrationIdx > 0) migration = appliedMigrations.at(namedMigrationIdx - 1);
+    } else {
+      const step = opts.step ?? 1;
+      if (appliedMigrations.length > step) migration = appliedMigrations.at(-step - 1);
+      else if (appliedMigrations.length > 0) migration = NO_MIGRATIONS;
+    }
+
+    if (!migration) {
+      if (name) return err(new NotFoundError("b7e0c4", "Could not find migration to rollback to."));
+      else return ok({ migrations: [], seeds: [] });
+    }
+
+    return this.#rollback(migrator, migration, opts);
+  }
+
+  /**
+   * Reverts all applied migrations and any seeds with a timestamp greater than the first
+   * migration.
+   *
+   * @param opts Options for running the migrations.
+   */
+  async undoAll(opts: IRunOptions = {}): Promise<Result<IRunResult, KyselyxError>> {
+    const protectedRes = checkProtected("63b533", this.#config, "undoAll", opts);
+    if (protectedRes.isErr()) return err(protectedRes.error);
+
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+    const migrator = migratorRes.value;
+
+    const migrationsRes = await this.#getMigrations(migrator);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+    if (migrationsRes.value.appliedMigrations.length === 0) return ok({ migrations: [], seeds: [] });
+
+    return this.#rollback(migrator, NO_MIGRATIONS, opts);
+  }
+
+  /**
+   * Reverts and then re-applies the last migration, or all migrations from (and including) the
+   * specified migration. The seeds reverted along with the migrations are re-applied afterwards.
+   *
+   * @param name The name of the first migration to redo.
+   * @param opts Options for running the migrations.
+   */
+  async redo(
+    name?: string,
+    opts: Pick<IRunOptions, "allowDrift"> = {},
+  ): Promise<Result<{ reverted: IRunResult; applied: IRunResult }, KyselyxError>> {
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+
+    const migrationsRes = await this.#getMigrations(migratorRes.value);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+    const { appliedMigrations } = migrationsRes.value;
+
+    // find the migrations to redo
+    const idx = name ? appliedMigrations.findIndex(doesNameMatch(name)) : appliedMigrations.length - 1;
+    if (idx < 0) {
+      if (name) return err(new NotFoundError("5d2e83", "Could not find migration to redo."));
+      else return ok({ reverted: { migrations: [], seeds: [] }, applied: { migrations: [], seeds: [] } });
+    }
+    const migrations = appliedMigrations.slice(idx);
+
+    // check for drift before reverting anything, the redone migrations are expected to be modified
+    if (!opts.allowDrift) {
+      const driftRes = await this.#checkDrift(migrations.map((it) => it.name));
+      if (driftRes.isErr()) return err(driftRes.error);
+    }
+
+    // revert the migrations & seeds
+    const revertedRes = await this.undo(migrations[0]!.name);
+    if (revertedRes.isErr()) return err(revertedRes.error);
+    const reverted = revertedRes.value;
+
+    // re-apply the migrations & seeds
+    const migrateRes = await this.migrate(migrations.at(-1)!.name, { allowDrift: true });
+    if (migrateRes.isErr()) return err(migrateRes.error);
+
+    let seeds: SeedResult[] = [];
+    const lastSeed = reverted.seeds.find((it) => it.status === "Success");
+    if (lastSeed) {
+      const seedRes = await this.seed(lastSeed.seedName);
+      if (seedRes.isErr()) return err(seedRes.error);
+      seeds = seedRes.value.seeds;
+    }
+
+    return ok({ reverted, applied: { migrations: migrateRes.value.migrations, seeds } });
+  }
+
+  /**
+   * Records all migrations up to (and including) the specified migration as applied without running
+   * them. This adopts a database whose schema was created by another tool.
+   *
+   * @param name The name of the last migration to record.
+   */
+  async baseline(name: string): Promise<Result<IRunResult, KyselyxError>> {
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+
+    const migrationsRes = await this.#getMigrations(migratorRes.value);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+    const { allMigrations, unappliedMigrations } = migrationsRes.value;
+
+    // find the migration, there is nothing to record if it has been applied
+    const migration = allMigrations.find(doesNameMatch(name));
+    if (!migration) return err(new NotFoundError("3e81c9", "Could not find migration to baseline to."));
+    if (migration.executedAt) return ok({ migrations: [], seeds: [] });
+
+    // record the migrations by running them as no-ops
+    const names = unappliedMigrations.filter((it) => it.name <= migration.name).map((it) => it.name);
+    const noopMigratorRes = createMigrator(this.#config, names);
+    if (noopMigratorRes.isErr()) return err(noopMigratorRes.error);
+    const { error, results = [] } = await noopMigratorRes.value.migrateTo(migration.name);
+    if (error) return err(migrationFailure("f2b84d", error, results));
+
+    const recordRes = await this.#recordChecksums(this.#config.migrationTableName, this.#config.migrationsFolder);
+    if (recordRes.isErr()) return err(recordRes.error);
+
+    return ok({ migrations: results, seeds: [] });
+  }
+
+  /**
+   * Applies all seeds up to the latest seed, or to the specified seed. Seeds are only applied up
+   * to the last applied migration.
+   *
+   * @param name The name of the seed to seed to.
+   * @param opts Options for running the seeds.
+   */
+  async seed(name?: string, opts: IRunOptions = {}): Promise<Result<IRunResult, KyselyxError>> {
+    const seederRes = createSeeder(this.#config);
+    if (seederRes.isErr()) return err(seederRes.error);
+    const seeder = seederRes.value;
+
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+    const migrator = migratorRes.value;
+
+    // seeds are bound to applied migrations, so record any baselines first
+    const migrationsRes = await this.#getMigrations(migrator);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+
+    const seedsRes = await getSeeds(seeder);
+    if (seedsRes.isErr()) return err(seedsRes.error);
+    const { allSeeds } = seedsRes.value;
+
+    const stepRes = checkStep("b83e5a", name, opts.step);
+    if (stepRes.isErr()) return err(stepRes.error);
+
+    // find the seed (if supplied)
+    let seed: Seed | undefined;
+    if (name) {
+      seed = allSeeds.find(doesNameMatch(name));
+      if (!seed) return err(new NotFoundError("eb3df1", "Could not find a seed to seed to."));
+    }
+
+    // get the target seed
+    const targetSeedRes = await getTargetSeed({ seed, seeder, migrator });
+    if (targetSeedRes.isErr()) return err(targetSeedRes.error);
+    let targetSeed = targetSeedRes.value;
+
+    // step through the pending seeds, stopping at the last seed bound to an applied migration
+    if (opts.step) {
+      const maxSeed = targetSeed;
+      const pendingSeeds = getSeedsThrough(allSeeds, maxSeed).filter((it) => !it.executedAt);
+      const steppedSeed = pendingSeeds.at(Math.min(opts.step, pendingSeeds.length) - 1);
+      if (!steppedSeed) return ok({ migrations: [], seeds: [] });
+      targetSeed = steppedSeed;
+    }
+
+    if (opts.dryRun) return this.#dryRun(planTo(allSeeds, isNoSeeds(targetSeed) ? null : targetSeed.name), null);
+
+    // apply the seeds
+    const { error, results = [] } = await seeder.seedTo(isNoSeeds(targetSeed) ? NO_SEEDS : targetSeed.name);
+    if (error) return err(seedFailure("c6d495", error, results));
+
+    const recordRes = await this.#recordChecksums(
+      this.#config.seedTableName,
+      this.#config.seedsFolder,
+      this.#config.environmentNames,
+    );
+    if (recordRes.isErr()) return err(recordRes.error);
+
+    return ok({ migrations: [], seeds: results });
+  }
+
+  /**
+   * Reverts the last seed, or all seeds up to (and including) the specified seed.
+   *
+   * @param name The name of the seed to revert.
+   * @param opts Options for running the seeds.
+   */
+  async undoSeeds(name?: string, opts: IRunOptions = {}): Promise<Result<IRunResult, KyselyxError>> {
+    const seederRes = createSeeder(this.#config);
+    if (seederRes.isErr()) return err(seederRes.error);
+    const seeder = seederRes.value;
+
+    const seedsRes = await getSeeds(seeder);
+    if (seedsRes.isErr()) return err(seedsRes.error);
+    const { allSeeds, appliedSeeds } = seedsRes.value;
+
+    const stepRes = checkStep("7f9a64", name, opts.step);
+    if (stepRes.isErr()) return err(stepRes.error);
+
+    // find the seed to rollback to
+    let seed: Seed | NoSeeds | undefined;
+    if (name) {
+      const namedSeedIdx = appliedSeeds.findIndex(doesNameMatch(name));
+      if (namedSeedIdx === 0) seed = NO_SEEDS;
+      else if (namedSeedIdx > 0) seed = appliedSeeds.at(namedSeedIdx - 1);
+    } else {
+      const step = opts.step ?? 1;
+      if (appliedSeeds.length > step) seed = appliedSeeds.at(-step - 1);
+      else if (appliedSeeds.length > 0) seed = NO_SEEDS;
+    }
+
+    if (!seed) {
+      if (name) return err(new NotFoundError("f4b692", "Could not find seed to rollback to."));
+      else return ok({ migrations: [], seeds: [] });
+    }
+
+    if (opts.dryRun) return this.#dryRun(planTo(allSeeds, isNoSeeds(seed) ? null : seed.name), null);
+
+    // rollback the seeds
+    const { error, results = [] } = await seeder.seedTo(isNoSeeds(seed) ? NO_SEEDS : seed.name);
+    if (error) return err(seedFailure("bc184e", error, results));
+
+    return ok({ migrations: [], seeds: results });
+  }
+
+  /**
+   * Reverts all applied seeds.
+   *
+   * @param opts Options for running the seeds.
+   */
+  async undoAllSeeds(opts: IRunOptions = {}): Promise<Result<IRunResult, KyselyxError>> {
+    const protectedRes = checkProtected("58d061", this.#config, "undoAllSeeds", opts);
+    if (protectedRes.isErr()) return err(protectedRes.error);
+
+    const seederRes = createSeeder(this.#config);
+    if (seederRes.isErr()) return err(seederRes.error);
+    const seeder = seederRes.value;
+
+    const seedsRes = await getSeeds(seeder);
+    if (seedsRes.isErr()) return err(seedsRes.error);
+    if (seedsRes.value.appliedSeeds.length === 0) return ok({ migrations: [], seeds: [] });
+
+    if (opts.dryRun) return this.#dryRun(planTo(seedsRes.value.allSeeds, null), null);
+
+    // rollback all seeds
+    const { error, results = [] } = await seeder.seedTo(NO_SEEDS);
+    if (error) return err(seedFailure("e2a656", error, results));
+
+    return ok({ migrations: [], seeds: results });
+  }
+
+  /**
+   * Records all seeds up to (and including) the specified seed as applied without running them.
+   * Like `seed`, the seeds must be bound to applied migrations.
+   *
+   * @param name The name of the last seed to record.
+   */
+  async baselineSeeds(name: string): Promise<Result<IRunResult, KyselyxError>> {
+    const seederRes = createSeeder(this.#config);
+    if (seederRes.isErr()) return err(seederRes.error);
+
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+    const migrator = migratorRes.value;
+
+    // seeds are bound to applied migrations, so record any baselines first
+    const migrationsRes = await this.#getMigrations(migrator);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+
+    const seedsRes = await getSeeds(seederRes.value);
+    if (seedsRes.isErr()) return err(seedsRes.error);
+    const { allSeeds } = seedsRes.value;
+
+    // find the seed, there is nothing to record if it has been applied
+    const seed = allSeeds.find(doesNameMatch(name));
+    if (!seed) return err(new NotFoundError("b62d07", "Could not find seed to baseline to."));
+    if (seed.executedAt) return ok({ migrations: [], seeds: [] });
+    const targetSeedRes = await getTargetSeed({ seed, seeder: seederRes.value, migrator });
+    if (targetSeedRes.isErr()) return err(targetSeedRes.error);
+
+    // record the seeds by running them as no-ops
+    const names = getSeedsThrough(allSeeds, seed)
+      .filter((it) => !it.executedAt)
+      .map((it) => it.name);
+    const noopSeederRes = createSeeder(this.#config, names);
+    if (noopSeederRes.isErr()) return err(noopSeederRes.error);
+    const { error, results = [] } = await noopSeederRes.value.seedTo(seed.name);
+    if (error) return err(seedFailure("9d35e2", error, results));
+
+    const recordRes = await this.#recordChecksums(
+      this.#config.seedTableName,
+      this.#config.seedsFolder,
+      this.#config.environmentNames,
+    );
+    if (recordRes.isErr()) return err(recordRes.error);
+
+    return ok({ migrations: [], seeds: results });
+  }
+
+  /**
+   * Reverts all seeds, migrations, and deletes all metadata (locks, seed/migration metadata) from
+   * the database. This is an escape hatch to reset a database to 'like new'.
+   *
+   * @param opts Options for purging the database.
+   */
+  async purge(opts: Pick<IRunOptions, "allowProtected"> = {}): Promise<Result<IRunResult, KyselyxError>> {
+    const protectedRes = checkProtected("5712b8", this.#config, "purge", opts);
+    if (protectedRes.isErr()) return err(protectedRes.error);
+    let seeds: SeedResult[] = [];
+
+    // undo seeds & migrations, a missing seeds folder means there are no seeds to undo
+    if (fs.existsSync(this.#config.seedsFolder)) {
+      const seedsRes = await this.undoAllSeeds(opts);
+      if (seedsRes.isErr()) return err(seedsRes.error);
+      seeds = seedsRes.value.seeds;
+    }
+    const migrationsRes = await this.undoAll(opts);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+    const migrations = migrationsRes.value.migrations;
+    seeds = seeds.concat(migrationsRes.value.seeds);
+
+    // drop metadata tables
+    const { stores, metadataSchema } = this.#config;
+    const schema = metadataSchema ? stores.db.schema.withSchema(metadataSchema) : stores.db.schema;
+    const dropRes = await ResultAsync.fromPromise(
+      (async () => {
+        for (const table of getMetadataTables(this.#config)) await schema.dropTable(table).ifExists().execute();
+      })(),
+      KyselyError.fromThrown("0f6b52"),
+    );
+    if (dropRes.isErr()) return err(dropRes.error);
+
+    return ok({ migrations, seeds });
+  }
+
+  /**
+   * Runs all pending migrations and seeds.
+   *
+   * @param opts Options for running the migrations.
+   */
+  async setup(opts: Pick<IRunOptions, "allowDrift"> = {}): Promise<Result<IRunResult, KyselyxError>> {
+    const migrationsRes = await this.migrate(undefined, opts);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+
+    // a missing seeds folder means there are no seeds to apply
+    if (!fs.existsSync(this.#config.seedsFolder)) return ok(migrationsRes.value);
+
+    const seedsRes = await this.seed();
+    if (seedsRes.isErr()) return err(seedsRes.error);
+
+    return ok({ migrations: migrationsRes.value.migrations, seeds: seedsRes.value.seeds });
+  }
+
+  /**
+   * Purges the database and then runs all migrations and seeds.
+   *
+   * @param opts Options for resetting the database.
+   */
+  async reset(
+    opts: Pick<IRunOptions, "allowProtected"> = {},
+  ): Promise<Result<{ purged: IRunResult; applied: IRunResult }, KyselyxError>> {
+    const purgeRes = await this.purge(opts);
+    if (purgeRes.isErr()) return err(purgeRes.error);
+
+    const setupRes = await this.setup();
+    if (setupRes.isErr()) return err(setupRes.error);
+
+    return ok({ purged: purgeRes.value, applied: setupRes.value });
+  }
+
+  /**
+   * Reports risky operations in the pending migrations, such as dropped tables and columns. Each
+   * migration's `up` function is run against a database that captures the queries instead of
+   * executing them, so the database is not modified.
+   *
+   * @param opts Options for linting the migrations.
+   */
+  async lint(opts: ILintRunOptions = {}): Promise<Result<ILintResult, KyselyxError>> {
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+    const migrationsRes = await this.#getMigrations(migratorRes.value);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+    const { unappliedMigrations } = migrationsRes.value;
+
+    const dryRunRes = await this.#dryRun(null, { direction: "Up", items: unappliedMigrations });
+    if (dryRunRes.isErr()) return err(dryRunRes.error);
+    const queries = dryRunRes.value.queries ?? {};
+
+    const { migrationsFolder, lint = {} } = this.#config;
+    const filesRes = await ResultAsync.fromPromise(fs.readdir(migrationsFolder), FileSystemError.fromThrown("9e41b7"));
+    if (filesRes.isErr()) return err(filesRes.error);
+
+    const result: ILintResult = { migrations: [], violations: [], suppressed: [], failed: false };
+    for (const { name } of unappliedMigrations) {
+      const files = filesRes.value.filter((f) => getItemName(f) === name);
+      const contentsRes = await ResultAsync.fromPromise(
+        Promise.all(files.map((file) => fs.readFile(path.resolve(migrationsFolder, file), "utf-8"))),
+        FileSystemError.fromThrown("2ad7c3"),
+      );
+      if (contentsRes.isErr()) return err(contentsRes.error);
+      const suppressed = getSuppressedRules(contentsRes.value.join("\n"));
+
+      result.migrations.push(name);
+      for (const query of queries[name] ?? []) {
+        for (const { rule, message } of lintQuery(query)) {
+          const severity = lint.rules?.[rule] ?? LINT_RULES[rule];
+          if (severity === "off") continue;
+          const violation = { migrationName: name, rule, severity, message, sql: query.sql };
+          if (suppressed.has(rule)) result.suppressed.push(violation);
+          else result.violations.push(violation);
+        }
+      }
+    }
+
+    const failOn = opts.failOn ?? lint.failOn ?? "error";
+    result.failed = result.violations.some((v) => meetsSeverity(v.severity, failOn));
+    return ok(result);
+  }
+
+  /**
+   * Writes a snapshot of the database schema to the `schemaSnapshot` file, so changes to the schema
+   * show up in code review. The Kyselyx metadata tables are left out.
+   *
+   * @returns The path of the snapshot file, or `null` if snapshots are disabled.
+   */
+  async writeSchemaSnapshot(): Promise<Result<string | null, KyselyxError>> {
+    const { schemaSnapshot, stores } = this.#config;
+    if (!schemaSnapshot) return ok(null);
+
+    const snapshotRes = await getSchemaSnapshot(stores.db, getMetadataTables(this.#config));
+    if (snapshotRes.isErr()) return err(snapshotRes.error);
+
+    return ResultAsync.fromPromise(
+      fs.outputFile(schemaSnapshot, `${JSON.stringify(snapshotRes.value, null, 2)}\n`),
+      FileSystemError.fromThrown("6c1e8a"),
+    ).map(() => schemaSnapshot);
+  }
+
+  /**
+   * Introspects the database and writes a `Database` interface describing each table to the
+   * `types.outFile` file. The Kyselyx metadata tables are left out.
+   *
+   * @returns The path of the types file.
+   */
+  async generateTypes(): Promise<Result<string, KyselyxError>> {
+    const { stores, types } = this.#config;
+    const outFile = types?.outFile ?? DATABASE_TYPES_PATH;
+
+    const snapshotRes = await getSchemaSnapshot(stores.db, getMetadataTables(this.#config));
+    if (snapshotRes.isErr()) return err(snapshotRes.error);
+
+    const contents = databaseTypesTemplate(snapshotRes.value, getDialect(stores.db));
+    return ResultAsync.fromPromise(fs.outputFile(outFile, contents), FileSystemError.fromThrown("a58d0e")).map(
+      () => outFile,
+    );
+  }
+
+  /**
+   * Compares the `schemaSnapshot` file with the schema produced by applying every migration to the
+   * `scratchDb`. The scratch database is purged afterwards.
+   *
+   * @returns A description of each difference, an empty list means the snapshot is up to date.
+   */
+  async checkSchemaSnapshot(): Promise<Result<string[], KyselyxError>> {
+    const expectedRes = await this.#readSchemaSnapshot();
+    if (expectedRes.isErr()) return err(expectedRes.error);
+
+    const scratchRes = await this.#getScratch("check the schema snapshot");
+    if (scratchRes.isErr()) return err(scratchRes.error);
+    const { scratch, scratchDb } = scratchRes.value;
+
+    const migrateRes = await scratch.migrate();
+    const actualRes = await getSchemaSnapshot(scratchDb, getMetadataTables(this.#config));
+    const purgeRes = await scratch.purge();
+    if (migrateRes.isErr()) return err(migrateRes.error);
+    if (actualRes.isErr()) return err(actualRes.error);
+    if (purgeRes.isErr()) return err(purgeRes.error);
+
+    return ok(diffSnapshots(expectedRes.value, actualRes.value));
+  }
+
+  /**
+   * Checks that every migration and seed can be reverted, using the `scratchDb`. Each migration is
+   * applied, reverted, and re-applied, and the schema after reverting must match the schema before
+   * it was applied. Seeds are then checked the same way by comparing the row count of each table.
+   * The scratch database is purged afterwards.
+   *
+   * Verification stops at the first item that cannot be re-applied after being reverted.
+   */
+  async verify(): Promise<Result<IVerifyResult, KyselyxError>> {
+    const scratchRes = await this.#getScratch("verify migrations");
+    if (scratchRes.isErr()) return err(scratchRes.error);
+    const { scratch, scratchDb, status } = scratchRes.value;
+    const { migrations, seeds } = status;
+    const exclude = getMetadataTables(this.#config);
+
+    const result: IVerifyResult = { migrations: [], seeds: [] };
+    const verifyRes = await (async (): Promise<Result<void, KyselyxError>> => {
+      // verify each migration restores the schema
+      const snapshot = () => getSchemaSnapshot(scratchDb, exclude);
+      for (const { name } of migrations.allMigrations) {
+        const itemRes = await verifyItem(name, snapshot, diffSnapshots, {
+          up: () => scratch.migrate(name),
+          down: () => scratch.undo(),
+        });
+        if (itemRes.isErr()) return err(itemRes.error);
+        result.migrations.push(itemRes.value.item);
+        if (itemRes.value.stop) return ok(undefined);
+      }
+
+      // verify each seed restores the row counts
+      const schemaRes = await snapshot();
+      if (schemaRes.isErr()) return err(schemaRes.error);
+      const counts = () => getRowCounts(scratchDb, schemaRes.value);
+      for (const { name } of seeds.allSeeds) {
+        const itemRes = await verifyItem(name, counts, diffRowCounts, {
+          up: () => scratch.seed(name),
+          down: () => scratch.undoSeeds(),
+        });
+        if (itemRes.isErr()) return err(itemRes.error);
+        result.seeds.push(itemRes.value.item);
+        if (itemRes.value.stop) return ok(undefined);
+      }
+
+      return ok(undefined);
+    })();
+
+    // leave the scratch database empty, a failure is expected if an item could not be reverted
+    const purgeRes = await scratch.purge();
+    if (verifyRes.isErr()) return err(verifyRes.error);
+    const reversible = [...result.migrations, ...result.seeds].every((it) => it.reversible);
+    if (purgeRes.isErr() && reversible) return err(purgeRes.error);
+
+    return ok(result);
+  }
+
+  /**
+   * Replaces all migrations up to (and including) the specified migration with one baseline
+   * migration, which creates the schema those migrations produce on the `scratchDb`. The baseline
+   * exports the names of the migrations it replaces, and any database which applied them records
+   * the baseline as applied in their place the next time it is migrated.
+   *
+   * The baseline is generated from a schema snapshot and applied to the `scratchDb` before any file
+   * is replaced. Squashing fails if the snapshot can't describe the schema, such as when it has
+   * views, or if the baseline doesn't reproduce it.
+   *
+   * @param name The name of the last migration to squash.
+   */
+  async squash(name: string): Promise<Result<ISquashResult, KyselyxError>> {
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+    const migrator = migratorRes.value;
+
+    const migrationsRes = await this.#getMigrations(migrator);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+    const { allMigrations } = migrationsRes.value;
+
+    // find the migrations to squash
+    const idx = allMigrations.findIndex(doesNameMatch(name));
+    if (idx < 0) return err(new NotFoundError("8b3f5d", "Could not find migration to squash until."));
+    const migrations = allMigrations.slice(0, idx + 1);
+    const target = migrations.at(-1)!;
+    if (!target.executedAt && migrations.some((it) => it.executedAt)) {
+      const message = `The migrations to squash are partly applied, migrate to "${target.name}" before squashing.`;
+      return err(new MigrationError("1d6c4a", message));
+    }
+
+    // get the schema the migrations produce
+    const scratchRes = await this.#getScratch("squash migrations");
+    if (scratchRes.isErr()) return err(scratchRes.error);
+    const { scratch, scratchDb } = scratchRes.value;
+
+    const migrateRes = await scratch.migrate(target.name);
+    const snapshotRes = await getSchemaSnapshot(scratchDb, getMetadataTables(this.#config));
+    const purgeRes = await scratch.purge();
+    if (migrateRes.isErr()) return err(migrateRes.error);
+    if (snapshotRes.isErr()) return err(snapshotRes.error);
+    if (purgeRes.isErr()) return err(purgeRes.error);
+
+    // replace the migration files with the baseline, a squashed baseline is replaced along with the
+    // migrations it replaced
+    const { migrationsFolder } = this.#config;
+    const filesRes = await ResultAsync.fromPromise(fs.readdir(migrationsFolder), FileSystemError.fromThrown("c0a9e4"));
+    if (filesRes.isErr()) return err(filesRes.error);
+    const squashed = migrations.map((it) => it.name);
+    const files = filesRes.value.filter((file) => squashed.includes(getItemName(file) ?? ""));
+    const targetExt = path.extname(files.find((file) => getItemName(file) === target.name)!);
+    const ext = /^\.[mc]?[jt]s$/.test(targetExt) ? targetExt : ".ts";
+
+    const replaces = [...migrations.flatMap((it) => getReplaced(it) ?? []), ...squashed];
+    const baseline = `${migrations[0]!.timestamp}_baseline`;
+    const contentsRes = baselineMigrationTemplate(
+      snapshotRes.value,
+      replaces,
+      /^\.[mc]?js$/.test(ext),
+      getDialect(scratchDb),
+    );
+    if (contentsRes.isErr()) return err(contentsRes.error);
+    const contents = contentsRes.value;
+
+    // check the baseline reproduces the schema before replacing any files
+    const checkRes = await this.#checkBaseline(scratch, `${baseline}${ext}`, contents, snapshotRes.value);
+    if (checkRes.isErr()) return err(checkRes.error);
+
+    for (const file of files) {
+      const removeRes = await ResultAsync.fromPromise(
+        fs.remove(path.resolve(migrationsFolder, file)),
+        FileSystemError.fromThrown("e8d217"),
+      );
+      if (removeRes.isErr()) return err(removeRes.error);
+    }
+    const writeRes = await ResultAsync.fromPromise(
+      fs.writeFile(path.resolve(migrationsFolder, `${baseline}${ext}`), contents),
+      FileSystemError.fromThrown("a2f6b8"),
+    );
+    if (writeRes.isErr()) return err(writeRes.error);
+
+    // record the baseline on this database if it applied the squashed migrations
+    const recordRes = await this.#getMigrations(migrator);
+    if (recordRes.isErr()) return err(recordRes.error);
+    const checksumsRes = await this.#recordChecksums(this.#config.migrationTableName, migrationsFolder);
+    if (checksumsRes.isErr()) return err(checksumsRes.error);
+
+    return ok({ migration: baseline, squashed });
+  }
+
+  /**
+   * Returns all migrations and seeds split by whether they have been applied. A missing seeds
+   * folder is reported as having no seeds.
+   */
+  async status(): Promise<Result<IStatusResult, KyselyxError>> {
+    const migratorRes = createMigrator(this.#config);
+    if (migratorRes.isErr()) return err(migratorRes.error);
+
+    const migrationsRes = await this.#getMigrations(migratorRes.value);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+    const { stores, migrationTableName, seedTableName, metadataSchema } = this.#config;
+    const driftedMigrationsRes = await getDrifted(
+      stores.db,
+      { name: migrationTableName, schema: metadataSchema },
+      this.#config.migrationsFolder,
+    );
+    if (driftedMigrationsRes.isErr()) return err(driftedMigrationsRes.error);
+    const migrations = {
+      ...migrationsRes.value,
+      driftedMigrations: migrationsRes.value.appliedMigrations.filter((m) =>
+        driftedMigrationsRes.value.includes(m.name),
+      ),
+    };
+
+    // a project without a seeds folder has no seeds
+    if (!fs.existsSync(this.#config.seedsFolder)) {
+      return ok({
+        migrations,
+        seeds: { allSeeds: [], appliedSeeds: [], unappliedSeeds: [], driftedSeeds: [], skippedSeeds: [] },
+      });
+    }
+
+    const seederRes = createSeeder(this.#config);
+    if (seederRes.isErr()) return err(seederRes.error);
+
+    const seedsRes = await getSeeds(seederRes.value);
+    if (seedsRes.isErr()) return err(seedsRes.error);
+    const driftedSeedsRes = await getDrifted(
+      stores.db,
+      { name: seedTableName, schema: metadataSchema },
+      this.#config.seedsFolder,
+      this.#config.environmentNames,
+    );
+    if (driftedSeedsRes.isErr()) return err(driftedSeedsRes.error);
+    const seeds = {
+      ...seedsRes.value,
+      driftedSeeds: seedsRes.value.appliedSeeds.filter((s) => driftedSeedsRes.value.includes(s.name)),
+    };
+
+    return ok({ migrations, seeds });
+  }
+
+  /**
+   * Generates a new migration file and returns the name of the file created.
+   *
+   * @param label The label of the migration, the name will have a timestamp prepended to it.
+   * @param opts Options for generating the migration file.
+   */
+  async generateMigration(label: string, opts: IGenerateOptions = {}): Promise<Result<string, KyselyxError>> {
+    const { migrationsFolder } = this.#config;
+    const fileName = `${Date.now()}_${label}.${opts.js ? "js" : "ts"}`;
+
+    let contents = opts.js ? migrationTemplateJs : migrationTemplateTs;
+    if (opts.fromDiff) {
+      const fromRes = await this.#readSchemaSnapshot();
+      if (fromRes.isErr()) return err(fromRes.error);
+      const toRes = opts.target
+        ? await ResultAsync.fromPromise(
+            import(path.resolve(process.cwd(), opts.target)).then((mod) => mod.default as ISchemaSnapshot),
+            FileSystemError.fromThrown("e07b92"),
+          )
+        : await getSchemaSnapshot(this.#config.stores.db, getMetadataTables(this.#config));
+      if (toRes.isErr()) return err(toRes.error);
+
+      const dialect = getDialect(this.#config.stores.db);
+      const diffRes = migrationFromDiffTemplate(fromRes.value, toRes.value, opts.js, dialect);
+      if (diffRes.isErr()) return err(diffRes.error);
+      if (!diffRes.value) return err(new NotFoundError("c4d81f", "The database schema matches the schema snapshot."));
+      contents = diffRes.value;
+    }
+
+    return ResultAsync.fromPromise(fs.ensureDir(migrationsFolder), FileSystemError.fromThrown("353782"))
+      .andThen(() =>
+        ResultAsync.fromPromise(
+          fs.writeFile(path.resolve(migrationsFolder, fileName), contents),
+          FileSystemError.fromThrown("992638"),
+        ),
+      )
+      .map(() => fileName);
+  }
+
+  /**
+   * Generates a new seed file and returns the name of the file created.
+   *
+   * @param label The label of the seed, the name will have a timestamp prepended to it.
+   * @param opts Options for generating the seed file.
+   */
+  async generateSeed(label: string, opts: IGenerateOptions = {}): Promise<Result<string, FileSystemError>> {
+    const { configFile, seedsFolder } = this.#config;
+    const fileName = `${Date.now()}_${label}.${opts.js ? "js" : "ts"}`;
+    const seedFile = path.resolve(seedsFolder, fileName);
+    const contents = opts.js ? seedTemplateJs(configFile, seedFile) : seedTemplateTs(configFile, seedFile);
+
+    return ResultAsync.fromPromise(fs.ensureDir(seedsFolder), FileSystemError.fromThrown("6b9a65"))
+      .andThen(() => ResultAsync.fromPromise(fs.writeFile(seedFile, contents), FileSystemError.fromThrown("8c0fce")))
+      .map(() => fileName);
+  }
+
+  /**
+   * Returns the migrations after recording any baseline migrations in place of the migrations they
+   * replace, see `squash`.
+   */
+  async #getMigrations(migrator: Migrator) {
+    const migrationsRes = await getMigrations(migrator);
+    if (migrationsRes.isErr()) return err(migrationsRes.error);
+
+    const { stores, migrationTableName, metadataSchema } = this.#config;
+    const table = { name: migrationTableName, schema: metadataSchema };
+    const recordedRes = await applySquashes(stores.db, table, migrationsRes.value.allMigrations);
+    if (recordedRes.isErr()) return err(recordedRes.error);
+
+    return recordedRes.value.length > 0 ? getMigrations(migrator) : migrationsRes;
+  }
+
+  /**
+   * Returns an error unless the baseline migration creates the schema of the squashed migrations on
+   * the scratch database, which is purged afterwards. The baseline is written to a temporary folder
+   * next to the migrations folder, so it imports the same packages.
+   *
+   * @param scratch The instance that runs against the `scratchDb`.
+   * @param fileName The file name of the baseline.
+   * @param contents The contents of the baseline.
+   * @param expected The schema of the squashed migrations.
+   */
+  async #checkBaseline(
+    scratch: Kyselyx,
+    fileName: string,
+    contents: string,
+    expected: ISchemaSnapshot,
+  ): Promise<Result<void, KyselyxError>> {
+    const folder = path.resolve(
+      path.dirname(path.resolve(this.#config.migrationsFolder)),
+      `.kyselyx-baseline-${randomBytes(4).toString("hex")}`,
+    );
+    const writeRes = await ResultAsync.fromPromise(
+      fs.outputFile(path.resolve(folder, fileName), contents),
+      FileSystemError.fromThrown("5b8ec1"),
+    );
+    if (writeRes.isErr()) return err(writeRes.error);
+
+    const checker = new Kyselyx({ ...scratch.config, migrationsFolder: folder });
+    const migrateRes = await checker.migrate();
+    const snapshotRes = await getSchemaSnapshot(checker.config.stores.db, getMetadataTables(this.#config));
+    const purgeRes = await checker.purge();
+    const removeRes = await ResultAsync.fromPromise(fs.remove(folder), FileSystemError.fromThrown("876ee3"));
+    if (migrateRes.isErr()) {
+      const message = withCause("The baseline migration failed on the scratch database.", migrateRes.error);
+      return err(new MigrationError("0636d8", message, { cause: migrateRes.error }));
+    }
+    if (snapshotRes.isErr()) return err(snapshotRes.error);
+    if (purgeRes.isErr()) return err(purgeRes.error);
+    if (removeRes.isErr()) return err(removeRes.error);
+
+    const differences = diffSnapshots(expected, snapshotRes.value);
+    if (differences.length > 0) {
+      const message = `The baseline migration doesn't reproduce the schema of the squashed migrations:\n${differences.map((it) => `- ${it}`).join("\n")}`;
+      return err(new MigrationError("e5c0a3", message));
+    }
+
+    return ok(undefined);
+  }
+
+  /**
+   * Reads the `schemaSnapshot` file.
+   */
+  async #readSchemaSnapshot(): Promise<Result<ISchemaSnapshot, KyselyxError>> {
+    const { schemaSnapshot } = this.#config;
+    if (!schemaSnapshot) return err(new ConfigError("b1f47c", "Schema snapshots are disabled in the config file."));
+    if (!fs.existsSync(schemaSnapshot))
+      return err(new NotFoundError("0c8e5d", `Schema snapshot not found: ${schemaSnapshot}`));
+
+    return ResultAsync.fromPromise(
+      fs.readJson(schemaSnapshot) as Promise<ISchemaSnapshot>,
+      FileSystemError.fromThrown("f3a92b"),
+    );
+  }
+
+  /**
+   * Returns an instance that runs against the `scratchDb`, and the status of the scratch database.
+   * The scratch database must not have any applied migrations or seeds.
+   *
+   * @param action What the scratch database is needed for, used in the error message.
+   */
+  async #getScratch(
+    action: string,
+  ): Promise<Result<{ scratch: Kyselyx; scratchDb: Kysely<any>; status: IStatusResult }, KyselyxError>> {
+    const { scratchDb, ...config } = this.#config;
+    if (!scratchDb) return err(new ConfigError("58e1d6", `A 'scratchDb' must be configured to ${action}.`));
+    const scratch = new Kyselyx({ ...config, protected: false, stores: { ...config.stores, db: scratchDb } });
+
+    const statusRes = await scratch.status();
+    if (statusRes.isErr()) return err(statusRes.error);
+    const { migrations, seeds } = statusRes.value;
+    if (migrations.appliedMigrations.length > 0 || seeds.appliedSeeds.length > 0) {
+      return err(new ConfigError("9a3f27", "The scratch database must not have any applied migrations or seeds."));
+    }
+
+    return ok({ scratch, scratchDb, status: statusRes.value });
+  }
+
+  /**
+   * Returns an error if any applied migration, other than those excluded, has been modified since
+   * it was applied.
+   *
+   * @param exclude The names of migrations to ignore.
+   */
+  async #checkDrift(exclude: string[] = []): Promise<Result<void, KyselyxError>> {
+    const { stores, migrationTableName, metadataSchema, migrationsFolder } = this.#config;
+    const driftedRes = await getDrifted(
+      stores.db,
+      { name: migrationTableName, schema: metadataSchema },
+      migrationsFolder,
+    );
+    if (driftedRes.isErr()) return err(driftedRes.error);
+
+    const drifted = driftedRes.value.filter((name) => !exclude.includes(name));
+    if (drifted.length > 0) {
+      const names = drifted.map((name) => `"${name}"`).join(", ");
+      const message = `Applied migration(s) ${names} have been modified since they were applied. Use the 'allowDrift' option (--allow-drift) to continue anyway.`;
+      return err(new MigrationError("c91d5e", message));
+    }
+
+    return ok(undefined);
+  }
+
+  /**
+   * Records the checksum of each newly applied migration or seed in the metadata table.
+   */
+  async #recordChecksums(
+    tableName: string,
+    folder: string,
+    subfolders: ReadonlyArray<string> = [],
+  ): Promise<Result<void, KyselyxError>> {
+    const checksumsRes = await getChecksums(folder, subfolders);
+    if (checksumsRes.isErr()) return err(checksumsRes.error);
+
+    const table = { name: tableName, schema: this.#config.metadataSchema };
+    return recordChecksums(this.#config.stores.db, table, checksumsRes.value);
+  }
+
+  /**
+   * Rolls back the seeds bound to the migrations being reverted, and then rolls back the
+   * migrations to the target.
+   */
+  async #rollback(
+    migrator: Migrator,
+    migration: Migration | NoMigrations,
+    opts: IRunOptions,
+  ): Promise<Result<IRunResult, KyselyxError>> {
+    const migrationName = isNoMigrations(migration) ? null : migration.name;
+    let seeds: SeedResult[] = [];
+    let seedPlan: IPlan<Seed> | null = null;
+
+    // find seed to rollback to, a missing seeds folder means there are no seeds to rollback
+    const seederRes = createSeeder(this.#config);
+    if (seederRes.isOk()) {
+      const seeder = seederRes.value;
+      const targetSeedRes = await getTargetSeed({ migration, seeder, migrator });
+      if (targetSeedRes.isErr()) return err(targetSeedRes.error);
+      const seedsRes = await getSeeds(seeder);
+      if (seedsRes.isErr()) return err(seedsRes.error);
+
+      // a rollback never applies seeds, so target the last applied seed at or before the target
+      const target = targetSeedRes.value;
+      const seedName =
+        getSeedsThrough(seedsRes.value.allSeeds, target)
+          .filter((s) => s.executedAt)
+          .at(-1)?.name ?? null;
+
+      if (opts.dryRun) {
+        seedPlan = planTo(seedsRes.value.allSeeds, seedName);
+      } else {
+        const { error, results = [] } = await seeder.seedTo(seedName ?? NO_SEEDS);
+        if (error) return err(seedFailure("c82c50", error, results));
+        seeds = results;
+      }
+    }
+
+    if (opts.dryRun) {
+      const migrationsRes = await this.#getMigrations(migrator);
+      if (migrationsRes.isErr()) return err(migrationsRes.error);
+      return this.#dryRun(seedPlan, planTo(migrationsRes.value.allMigrations, migrationName));
+    }
+
+    // rollback the migrations
+    const { error, results = [] } = await migrator.migrateTo(migrationName ?? NO_MIGRATIONS);
+    if (error) return err(migrationFailure("5bd2ef", error, results));
+
+    return ok({ migrations: results, seeds });
+  }
+
+  /**
+   * Runs the planned seeds and then the planned migrations against a database that captures each
+   * query instead of executing it.
+   */
+  async #dryRun(
+    seedPlan: IPlan<Seed> | null,
+    migrationPlan: IPlan<Migration> | null,
+  ): Promise<Result<IRunResult, KyselyxError>> {
+    const result: Required<IRunResult> = { migrations: [], seeds: [], queries: {} };
+
+    for (const seed of seedPlan?.items ?? []) {
+      const direction = seedPlan!.direction;
+      const { db, queries } = createCaptureDb(this.#config.stores.db);
+      const stores = { ...this.#config.stores, db };
+
+      const res = await ResultAsync.fromPromise(
+        direction === "Up" ? seed.seed.up(stores) : seed.seed.down(stores),
+        (e) => seedFailure("5a1f3e", e, [{ seedName: seed.name, direction, status: "Error" }]),
+      );
+      if (res.isErr()) return err(res.error);
+
+      result.seeds.push({ seedName: seed.name, direction, status: "NotExecuted" });
+      result.queries[seed.name] = queries;
+    }
+
+    for (const migration of migrationPlan?.items ?? []) {
+      const direction = migrationPlan!.direction;
+      const { db, queries } = createCaptureDb(this.#config.stores.db);
+
+      const res = await ResultAsync.fromPromise(
+        direction === "Up" ? migration.migration.up(db) : (migration.migration.down?.(db) ?? Promise.resolve()),
+        (e) => migrationFailure("8d2c47", e, [{ migrationName: migration.name, direction, status: "Error" }]),
+      );
+      if (res.isErr()) return err(res.error);
+
+      result.migrations.push({ migrationName: migration.name, direction, status: "NotExecuted" });
+      result.queries[migration.name] = queries;
+    }
+
+    return ok(result);
+  }
+}
+
+/**
+ * Returns the seeds up to and including the target seed, in the order they are run.
+ */
+function getSeedsThrough(allSeeds: Seed[], target: Seed | NoSeeds): Seed[] {
+  if (isNoSeeds(target)) return [];
+  return allSeeds.slice(0, allSeeds.findIndex((it) => it.name === target.name) + 1);
+}
+
+interface IPlan<T> {
+  direction: "Up" | "Down";
+  items: T[];
+}
+
+/**
+ * Returns the items that would be executed, in order, to move from the current state to the
+ * target. This mirrors the behaviour of `Migrator.migrateTo` and `Seeder.seedTo`.
+ *
+ * @param allItems All migrations or seeds in the order they are run.
+ * @param targetName The name of the item to move to, or `null` to revert all items.
+ */
+function planTo<T extends { name: string; executedAt?: Date }>(allItems: T[], targetName: string | null): IPlan<T> {
+  const targetIdx = targetName === null ? -1 : allItems.findIndex((it) => it.name === targetName);
+
+  if (targetIdx === -1 || allItems[targetIdx]!.executedAt) {
+    const items = allItems.filter((it, idx) => it.executedAt && idx > targetIdx).reverse();
+    return { direction: "Down", items };
+  } else {
+    const items = allItems.filter((it, idx) => !it.executedAt && idx <= targetIdx);
+    return { direction: "Up", items };
+  }
+}
+
+/**
+ * Applies, reverts and re-applies a migration or seed, comparing the state captured before it was
+ * applied with the state after it was reverted, and the state after it was applied with the state
+ * after it was re-applied. Verification should stop if the item is left in an unknown state.
+ *
+ * @param name The name of the migration or seed.
+ * @param capture Captures the state of the database.
+ * @param compare Describes each difference between the expected and actual state.
+ * @param run Applies and reverts the item.
+ */
+async function verifyItem<T>(
+  name: string,
+  capture: () => Promise<Result<T, KyselyxError>>,
+  compare: (expected: T, actual: T) => string[],
+  run: { up: () => Promise<Result<unknown, KyselyxError>>; down: () => Promise<Result<unknown, KyselyxError>> },
+): Promise<Result<{ item: IVerifyItem; stop: boolean }, KyselyxError>> {
+  const beforeRes = await capture();
+  if (beforeRes.isErr()) return err(beforeRes.error);
+  const upRes = await run.up();
+  if (upRes.isErr()) return err(upRes.error);
+  const afterRes = await capture();
+  if (afterRes.isErr()) return err(afterRes.error);
+
+  // revert the item
+  const downRes = await run.down();
+  if (downRes.isErr()) return ok({ item: { name, reversible: false, problems: [downRes.error.message] }, stop: true });
+  const revertedRes = await capture();
+  if (revertedRes.isErr()) return err(revertedRes.error);
+  const problems = compare(beforeRes.value, revertedRes.value);
+
+  // re-apply the item
+  const redoRes = await run.up();
+  if (redoRes.isErr()) {
+    return ok({ item: { name, reversible: false, problems: [...problems, redoRes.error.message] }, stop: true });
+  }
+  const redoneRes = await capture();
+  if (redoneRes.isErr()) return err(redoneRes.error);
+  problems.push(...compare(afterRes.value, redoneRes.value).map((it) => `After re-applying: ${it}`));
+
+  return ok({ item: { name, reversible: problems.length === 0, problems }, stop: false });
+}
+
+/**
+ * Creates a MigrationError that names the migration which failed, if there was one.
+ */
+function migrationFailure(traceId: string, error: unknown, results: MigrationResult[]): MigrationError {
+  const failed = results.find((it) => it.status === "Error");
+  const action = failed?.direction === "Down" ? "revert" : "apply";
+  const message = failed ? `Failed to ${action} migration "${failed.migrationName}".` : "Error running migrations.";
+  return new MigrationError(traceId, withCause(message, error), { cause: error });
+}
+
+/**
+ * Returns an error if the environment is protected and the destructive method is not allowed to
+ * run in it. Dry runs are always allowed.
+ */
+function checkProtected(
+  traceId: string,
+  config: IConfig,
+  method: string,
+  opts: Pick<IRunOptions, "dryRun" | "allowProtected">,
+): Result<void, ConfigError> {
+  if (!config.protected || opts.allowProtected || opts.dryRun) return ok(undefined);
+  const target = config.env ? `The "${config.env}" environment` : "The database";
+  return err(new ConfigError(traceId, `${target} is protected. Pass 'allowProtected' to run '${method}' anyway.`));
+}
+
+/**
+ * Returns an error if the step is not a positive integer or is combined with a name.
+ */
+function checkStep(traceId: string, name: string | undefined, step: number | undefined): Result<void, ConfigError> {
+  if (step === undefined) return ok(undefined);
+  if (!Number.isInteger(step) || step < 1) return err(new ConfigError(traceId, "The step must be a positive integer."));
+  if (name) return err(new ConfigError(traceId, "Specify either a name or a step, not both."));
+  return ok(undefined);
+}
+
+/**
+ * Creates a SeedError that names the seed which failed, if there was one.
+ */
+function seedFailure(traceId: string, error: unknown, results: SeedResult[]): SeedError {
+  const failed = results.find((it) => it.status === "Error");
+  const action = failed?.direction === "Down" ? "revert" : "apply";
+  const message = failed ? `Failed to ${action} seed "${failed.seedName}".` : "Error running seeds.";
+  return new SeedError(traceId, withCause(message, error), { cause: error });
+}
+
+/**
+ * Appends the message of the underlying error, if there is one.
+ */
+function withCause(message: string, error: unknown): string {
+  return error instanceof Error ? `${message} ${error.message}` : message;
+}
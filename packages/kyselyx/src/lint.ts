@@ -0,0 +1,134 @@
+import {
+  AddColumnNode,
+  AlterColumnNode,
+  AlterTableNode,
+  type ColumnDefinitionNode,
+  type CompiledQuery,
+  DropColumnNode,
+  DropTableNode,
+  ModifyColumnNode,
+  RawNode,
+  type TableNode,
+} from "kysely";
+
+/**
+ * The severities of lint violations, from lowest to highest.
+ */
+export const LINT_SEVERITIES = ["warning", "error"] as const;
+export type LintSeverity = (typeof LINT_SEVERITIES)[number];
+
+/**
+ * The risky operations reported by `db:lint` and their default severity.
+ */
+export const LINT_RULES = {
+  "drop-table": "error",
+  "drop-column": "error",
+  "not-null-without-default": "error",
+  "alter-column-type": "warning",
+} as const satisfies Record<string, LintSeverity>;
+export type LintRule = keyof typeof LINT_RULES;
+
+export interface ILintViolation {
+  migrationName: string;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /**
+   * The captured SQL of the query that triggered the violation.
+   */
+  sql: string;
+}
+
+/**
+ * Returns the risky operations performed by a captured query. Queries built with the schema builder
+ * are checked by their operation node, raw SQL is checked by matching the statement text.
+ *
+ * Indexes created without `CONCURRENTLY` are not reported: the migrator runs each Postgres migration
+ * in a transaction, where `CREATE INDEX CONCURRENTLY` fails.
+ *
+ * @param query The captured query.
+ */
+export function lintQuery(query: CompiledQuery): { rule: LintRule; message: string }[] {
+  const node = query.query;
+  if (RawNode.is(node)) return lintSql(query.sql);
+
+  const found: { rule: LintRule; message: string }[] = [];
+  if (DropTableNode.is(node)) found.push({ rule: "drop-table", message: `Drops table "${tableName(node.table)}".` });
+  if (AlterTableNode.is(node)) {
+    const table = tableName(node.table);
+    for (const alteration of node.columnAlterations ?? []) {
+      if (DropColumnNode.is(alteration)) {
+        const message = `Drops column "${alteration.column.column.name}" from "${table}".`;
+        found.push({ rule: "drop-column", message });
+      } else if (AddColumnNode.is(alteration) && isNotNullWithoutDefault(alteration.column)) {
+        const message = `Adds NOT NULL column "${alteration.column.column.column.name}" to "${table}" without a default.`;
+        found.push({ rule: "not-null-without-default", message });
+      } else if (ModifyColumnNode.is(alteration)) {
+        const message = `Changes the type of column "${alteration.column.column.column.name}" in "${table}".`;
+        found.push({ rule: "alter-column-type", message });
+      } else if (AlterColumnNode.is(alteration)) {
+        const column = alteration.column.column.name;
+        if (alteration.dataType || alteration.dataTypeExpression) {
+          found.push({ rule: "alter-column-type", message: `Changes the type of column "${column}" in "${table}".` });
+        }
+        if (alteration.setNotNull) {
+          const message = `Sets column "${column}" in "${table}" to NOT NULL, which fails if any row is null.`;
+          found.push({ rule: "not-null-without-default", message });
+        }
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Returns the risky operations performed by a raw SQL statement.
+ */
+function lintSql(sql: string): { rule: LintRule; message: string }[] {
+  const found: { rule: LintRule; message: string }[] = [];
+  if (/\bdrop\s+table\b/i.test(sql)) found.push({ rule: "drop-table", message: "Drops a table." });
+  if (/\bdrop\s+column\b/i.test(sql)) found.push({ rule: "drop-column", message: "Drops a column." });
+  if (/\badd\s+(column\s+)?[^;]*\bnot\s+null\b/i.test(sql) && !/\bdefault\b/i.test(sql))
+    found.push({ rule: "not-null-without-default", message: "Adds a NOT NULL column without a default." });
+  if (/\b(alter|modify)\s+column\s+\S+\s+(set\s+data\s+)?type\b/i.test(sql))
+    found.push({ rule: "alter-column-type", message: "Changes the type of a column." });
+  return found;
+}
+
+/**
+ * Returns the rules disabled in a migration file. A `kyselyx-lint-disable` comment disables the
+ * listed rules, or every rule when none are listed.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * // kyselyx-lint-disable drop-column, alter-column-type
+ * ```
+ *
+ * @param contents The contents of the migration file.
+ */
+export function getSuppressedRules(contents: string): Set<LintRule> {
+  const suppressed = new Set<LintRule>();
+  for (const match of contents.matchAll(/\bkyselyx-lint-disable\b(.*)$/gm)) {
+    const names = match[1]!.replace(/\*\/.*$/, "").split(/[\s,]+/);
+    const rules = names.filter((name): name is LintRule => name in LINT_RULES);
+    for (const rule of rules.length > 0 ? rules : (Object.keys(LINT_RULES) as LintRule[])) suppressed.add(rule);
+  }
+  return suppressed;
+}
+
+/**
+ * Returns true if a severity is at or above the threshold.
+ */
+export function meetsSeverity(severity: LintSeverity, threshold: LintSeverity): boolean {
+  return LINT_SEVERITIES.indexOf(severity) >= LINT_SEVERITIES.indexOf(threshold);
+}
+
+function tableName({ table }: TableNode): string {
+  return table.schema ? `${table.schema.name}.${table.identifier.name}` : table.identifier.name;
+}
+
+function isNotNullWithoutDefault(column: ColumnDefinitionNode): boolean {
+  return !!column.notNull && !column.defaultTo && !column.primaryKey && !column.generated && !column.identity;
+}
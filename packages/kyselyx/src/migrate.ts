@@ -1,106 +1,57 @@
-import fs from "fs-extra";
-import { NO_MIGRATIONS, type NoMigrations } from "kysely";
 import ora, { type Options } from "ora";
-import path from "path";
 import { getConfig } from "./config.js";
-import { ConfigError, FileSystemError, MigrationError, SeedError } from "./errors.js";
-import { NO_SEEDS } from "./seeder/seed.js";
+import { MigrationError, NotFoundError } from "./errors.js";
+import { Kyselyx } from "./kyselyx.js";
+import type { LintSeverity } from "./lint.js";
 import {
-  doesNameMatch,
+  confirmDestructive,
   exitFailure,
-  getMigrations,
-  getMigrator,
-  getSeeder,
-  getTargetSeed,
-  isNoMigrations,
-  isNoSeeds,
-  type Migration,
+  getDroppedItems,
+  type IConfirmOptions,
+  printDryRun,
+  printTable,
+  updateSchemaFiles,
 } from "./utils.js";
 
-const templateTs = [
-  `import { Kysely, sql } from "kysely";`,
-  ``,
-  `/**`,
-  ` * The 'up' function runs when the migration is applied.`,
-  ` */`,
-  `async function up(db: Kysely<any>): Promise<void> {}`,
-  ``,
-  `/**`,
-  ` * The 'down' function runs when the migration is removed.`,
-  ` */`,
-  `async function down(db: Kysely<any>): Promise<void> {}`,
-  ``,
-  `export { up, down };`,
-].join("\n");
-
-const templateJs = [
-  `import { Kysely, sql } from "kysely";`,
-  ``,
-  `/**`,
-  ` * The 'up' function runs when the migration is applied.`,
-  ` *`,
-  ` * @param {import("kysely").Kysely<any>} db`,
-  ` * @returns {Promise<void>}`,
-  ` */`,
-  `async function up(db) {}`,
-  ``,
-  `/**`,
-  ` * The 'down' function runs when the migration is removed.`,
-  ` *`,
-  ` * @param {import("kysely").Kysely<any>} db`,
-  ` * @returns {Promise<void>}`,
-  ` */`,
-  `async function down(db) {}`,
-  ``,
-  `export { up, down };`,
-].join("\n");
-
 /**
  * Applied all migrations up to the latest migration, or to the specified migration.
  *
  * @param name The name of the migration to migrate to.
  * @param opts Options for running the script.
+ * @param opts.dryRun Print the SQL each migration would execute instead of running it.
+ * @param opts.allowDrift Apply migrations even if applied migration files have been modified.
+ * @param opts.step The number of pending migrations to apply.
  * @param opts.ora Options for the spinner.
  */
-export async function migrate(name?: string, opts?: { ora?: Options }) {
-  const migrator = getMigrator().match((i) => i, exitFailure);
-
-  // retrieve all migrations
-  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Getting migrations ...");
-  const { allMigrations } = (await getMigrations(migrator)).match((i) => i, exitFailure);
+export async function migrate(
+  name?: string,
+  opts?: { dryRun?: boolean; allowDrift?: boolean; step?: number; ora?: Options },
+) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
 
-  // find the migration
-  let migration: Migration | undefined;
-  if (name) migration = allMigrations.find(doesNameMatch(name));
-  else migration = allMigrations.at(-1);
+  // apply the migrations
+  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Applying migrations ...");
+  const res = await kyselyx.migrate(name, { dryRun: opts?.dryRun, allowDrift: opts?.allowDrift, step: opts?.step });
+  if (res.isErr()) {
+    if (res.error instanceof NotFoundError) return void feed.fail(res.error.message);
+    feed.stop();
+    exitFailure(res.error);
+  }
 
-  if (!migration) {
-    feed.fail("Could not find migration to migrate to.");
-    return;
+  if (opts?.dryRun) {
+    feed.succeed(`Dry run of ${res.value.migrations.length} migration(s), no changes were made.`);
+    return printDryRun(res.value);
   }
 
-  // apply the migrations
-  feed.start("Applying migrations ...");
-  const { error, results } = await migrator.migrateTo(migration.name);
+  // update the schema snapshot & types
+  await updateSchemaFiles(kyselyx, feed);
 
   // process the results
-  let lastAppliedMigration: string | undefined = undefined;
-  let [numApplied, numErr] = [0, 0];
-  results?.forEach((it) => {
-    if (it.status === "Success") {
-      numApplied += 1;
-      lastAppliedMigration = it.migrationName;
-    } else if (it.status === "Error") {
-      console.error(`Failed to apply migration ${it.migrationName}.`);
-      numErr += 1;
-    }
-  });
-  if (numErr > 0) exitFailure(new MigrationError("d42ad3", `Failed to apply ${numErr} migrations.`));
-
-  if (error) exitFailure(new MigrationError("1ac167", "Error applying migrations."));
-
-  if (numApplied === 0) feed.succeed("No migrations to apply.");
-  else feed.succeed(`Applied ${numApplied} migration(s) up to "${lastAppliedMigration}" successfully.`);
+  const applied = res.value.migrations.filter((it) => it.status === "Success");
+  if (applied.length === 0) feed.succeed("No migrations to apply.");
+  else feed.succeed(`Applied ${applied.length} migration(s) up to "${applied.at(-1)!.migrationName}" successfully.`);
 }
 
 /**
@@ -108,146 +59,143 @@ export async function migrate(name?: string, opts?: { ora?: Options }) {
  *
  * @param name The name of the migration to rollback to.
  * @param opts Options for running the script.
+ * @param opts.dryRun Print the SQL each migration and seed would execute instead of running it.
+ * @param opts.step The number of applied migrations to revert.
  * @param opts.ora Options for the spinner.
  */
-export async function undo(name?: string, opts?: { ora?: Options }) {
-  const migrator = getMigrator().match((i) => i, exitFailure);
-
-  // retrieve all migrations
-  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Getting migrations ...");
-  const { appliedMigrations } = (await getMigrations(migrator)).match((i) => i, exitFailure);
-
-  // find the migration to rollback to
-  let migration: Migration | NoMigrations | undefined;
-  if (name) {
-    const namedMigration = appliedMigrations.find(doesNameMatch(name));
-    if (namedMigration) {
-      const namedMigrationIdx = appliedMigrations.indexOf(namedMigration);
-      if (namedMigrationIdx === -1) {
-        feed.fail("Could not find migration to rollback to.");
-        return;
-      } else if (namedMigrationIdx === 0) migration = NO_MIGRATIONS;
-      else migration = appliedMigrations.at(namedMigrationIdx - 1);
-    }
-  } else {
-    if (appliedMigrations.length > 1) migration = appliedMigrations.at(-2);
-    else if (appliedMigrations.length === 1) migration = NO_MIGRATIONS;
+export async function undo(name?: string, opts?: { dryRun?: boolean; step?: number; ora?: Options }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // rollback the seeds & migrations
+  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Rolling back migrations ...");
+  const res = await kyselyx.undo(name, { dryRun: opts?.dryRun, step: opts?.step });
+  if (res.isErr()) {
+    if (res.error instanceof NotFoundError) return void feed.fail(res.error.message);
+    feed.stop();
+    exitFailure(res.error);
   }
 
-  if (!migration) {
-    if (name) feed.fail("Could not find migration to rollback to.");
-    else feed.succeed(`No migrations to rollback.`);
-    return;
+  if (opts?.dryRun) {
+    const { migrations, seeds } = res.value;
+    feed.succeed(`Dry run of ${migrations.length} migration(s) and ${seeds.length} seed(s), no changes were made.`);
+    return printDryRun(res.value);
   }
 
-  let [numSeedsDropped, numMigrationsDropped] = [0, 0];
-
-  // find seed to rollback to
-  feed.text = "Finding seed to rollback to ...";
-  (await getTargetSeed({ migration }))
-    .map((targetSeed) =>
-      getSeeder().map(async (seeder) => {
-        feed.text = "Rolling back seeds ...";
-        const { error, results } = await seeder.seedTo(isNoSeeds(targetSeed) ? NO_SEEDS : targetSeed.name);
-
-        results?.forEach((it) => {
-          if (it.status === "Success") numSeedsDropped += 1;
-        });
-
-        if (error) exitFailure(new SeedError("c82c50", "Error dropping seeds."));
-      }),
-    )
-    .mapErr((e) => {
-      if (e instanceof ConfigError) feed.succeed("No seeds to rollback.");
-      else exitFailure(new SeedError("c6d495", "Error rolling back seeds."));
-    });
-  feed.clear();
-
-  // rollback the migrations
-  feed.start("Rolling back migrations ...");
-  const { error, results } = await migrator.migrateTo(isNoMigrations(migration) ? NO_MIGRATIONS : migration.name);
-  feed.clear();
-
-  results?.forEach((it) => {
-    if (it.status === "Success") numMigrationsDropped += 1;
-  });
-
-  if (error) exitFailure(new MigrationError("bc184e", "Error rolling back migrations."));
-
-  feed.succeed(`Rolled back ${numMigrationsDropped} migration(s) and ${numSeedsDropped} seed(s).`);
+  // update the schema snapshot & types
+  await updateSchemaFiles(kyselyx, feed);
+
+  // process the results
+  const numMigrationsDropped = res.value.migrations.filter((it) => it.status === "Success").length;
+  const numSeedsDropped = res.value.seeds.filter((it) => it.status === "Success").length;
+  if (numMigrationsDropped === 0) feed.succeed("No migrations to rollback.");
+  else feed.succeed(`Rolled back ${numMigrationsDropped} migration(s) and ${numSeedsDropped} seed(s).`);
 }
 
 /**
  * Undo all migrations.
  *
  * @param opts Options for running the script.
+ * @param opts.yes Skip the confirmation prompt.
+ * @param opts.allowProtected Run the command even if the environment is protected.
  * @param opts.ora Options for the spinner.
  */
-export async function undoAll(opts?: { ora?: Options }) {
-  const migrator = getMigrator().match((i) => i, exitFailure);
-
-  // retrieve all migrations
-  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Getting migrations ...");
-  const { appliedMigrations } = (await getMigrations(migrator)).match((i) => i, exitFailure);
-
-  if (appliedMigrations.length === 0) {
-    feed.fail("No migrations to rollback.");
-    return;
+export async function undoAll(opts?: IConfirmOptions & { ora?: Options }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // confirm the command
+  const status = (await kyselyx.status()).match((i) => i, exitFailure);
+  const items = getDroppedItems(status, { migrations: true });
+  const confirmed = (await confirmDestructive("db:migrate:undo:all", items, opts ?? {})).match((i) => i, exitFailure);
+  if (!confirmed) return void console.log("Aborted, no changes were made.");
+
+  // rollback all seeds & migrations
+  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Rolling back migrations ...");
+  const res = await kyselyx.undoAll({ allowProtected: opts?.allowProtected });
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
   }
 
-  let [numSeedsDropped, numMigrationsDropped] = [0, 0];
-
-  // find seed to rollback to
-  feed.start("Finding seed to rollback to ...");
-  (await getTargetSeed({ migration: NO_MIGRATIONS }))
-    .map((targetSeed) => {
-      return getSeeder().map(async (seeder) => {
-        feed.start("Rolling back seeds ...");
-        const { error, results } = await seeder.seedTo(isNoSeeds(targetSeed) ? NO_SEEDS : targetSeed.name);
-        feed.clear();
-
-        // process the results
-        results?.forEach((it) => {
-          if (it.status === "Success") numSeedsDropped += 1;
-        });
-
-        if (error) exitFailure(new SeedError("c82c50", "Error dropping seeds."));
-      });
-    })
-    .mapErr((e) => {
-      if (e instanceof ConfigError) feed.succeed("No seeds to rollback.");
-      else exitFailure(new SeedError("c6d495", "Error rolling back seeds."));
-    });
-  feed.clear();
-
-  // rollback all migrations
-  feed.start("Rolling back migrations ...");
-  const { error, results } = await migrator.migrateTo(NO_MIGRATIONS);
+  // update the schema snapshot & types
+  await updateSchemaFiles(kyselyx, feed);
 
   // process the results
-  results?.forEach((it) => {
-    if (it.status === "Success") numMigrationsDropped += 1;
-  });
+  const numMigrationsDropped = res.value.migrations.filter((it) => it.status === "Success").length;
+  const numSeedsDropped = res.value.seeds.filter((it) => it.status === "Success").length;
+  if (numMigrationsDropped === 0) feed.fail("No migrations to rollback.");
+  else feed.succeed(`Rolled back ${numMigrationsDropped} migration(s) and ${numSeedsDropped} seed(s).`);
+}
+
+/**
+ * Reverts and re-applies the last migration, or all migrations from the specified migration, along
+ * with the seeds that were reverted with them.
+ *
+ * @param name The name of the first migration to redo.
+ * @param opts Options for running the script.
+ * @param opts.allowDrift Apply migrations even if other applied migration files have been modified.
+ * @param opts.ora Options for the spinner.
+ */
+export async function redo(name?: string, opts?: { allowDrift?: boolean; ora?: Options }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // revert & re-apply the migrations
+  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Redoing migrations ...");
+  const res = await kyselyx.redo(name, { allowDrift: opts?.allowDrift });
+  if (res.isErr()) {
+    if (res.error instanceof NotFoundError) return void feed.fail(res.error.message);
+    feed.stop();
+    exitFailure(res.error);
+  }
 
-  if (error) exitFailure(new MigrationError("a317f8", "Error rolling back migrations."));
+  // update the schema snapshot & types
+  await updateSchemaFiles(kyselyx, feed);
 
-  feed.succeed(`Rolled back ${numMigrationsDropped} migration(s) and ${numSeedsDropped} seed(s).`);
+  // process the results
+  const migrations = res.value.applied.migrations.filter((it) => it.status === "Success");
+  const numSeeds = res.value.applied.seeds.filter((it) => it.status === "Success").length;
+  if (migrations.length === 0) feed.succeed("No migrations to redo.");
+  else
+    feed.succeed(
+      `Redid ${migrations.length} migration(s) up to "${migrations.at(-1)!.migrationName}" and ${numSeeds} seed(s).`,
+    );
 }
 
 /**
  * Shows the status of all migrations.
+ *
+ * @param opts Options for running the script.
+ * @param opts.json Print the status as JSON instead of a table.
  */
-export async function status() {
-  const migrator = getMigrator().match((i) => i, exitFailure);
+export async function status(opts?: { json?: boolean }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
 
   // retrieve all migrations
-  let feed = ora({ stream: process.stdout }).start("Getting migrations ...");
-  const { allMigrations, appliedMigrations, unappliedMigrations } = (await getMigrations(migrator)).match(
-    (i) => i,
+  let feed = ora({ stream: process.stdout, isSilent: opts?.json }).start("Getting migrations ...");
+  const { allMigrations, appliedMigrations, unappliedMigrations, driftedMigrations } = (await kyselyx.status()).match(
+    ({ migrations }) => migrations,
     exitFailure,
   );
   feed.stop();
 
+  const migrations = allMigrations.map((m) => ({
+    name: m.name,
+    timestamp: m.timestamp,
+    label: m.label,
+    status: m.executedAt ? "applied" : "pending",
+    executedAt: m.executedAt?.toISOString() ?? null,
+    modified: driftedMigrations.some((d) => d.name === m.name),
+  }));
+
+  if (opts?.json) return console.log(JSON.stringify({ migrations }, null, 2));
+
   // print the status
   let statusLine = [
     `Total Migrations: ${allMigrations.length}`,
@@ -256,7 +204,160 @@ export async function status() {
   ].join("     ");
   console.log(statusLine);
   console.log(Array(statusLine.length).fill("-").join(""));
-  console.log(`Last Applied Migration: ${appliedMigrations.at(-1)?.name || "None"}`);
+  console.log();
+  printTable(
+    ["Timestamp", "Label", "Status", "Executed At"],
+    migrations.map((m) => [
+      m.timestamp.toString(),
+      m.label,
+      m.modified ? `${m.status} (modified)` : m.status,
+      m.executedAt ?? "-",
+    ]),
+  );
+}
+
+/**
+ * Checks the schema snapshot file matches the schema produced by the migrations, exiting with a
+ * non-zero code when it is out of date.
+ */
+export async function checkSchema() {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // compare the snapshot with the migrations
+  let feed = ora({ stream: process.stdout }).start("Checking the schema snapshot ...");
+  const res = await kyselyx.checkSchemaSnapshot();
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
+  if (res.value.length === 0) return void feed.succeed("The schema snapshot is up to date.");
+  feed.fail("The schema snapshot does not match the migrations:");
+
+  // print the differences
+  for (const difference of res.value) console.log(`  - ${difference}`);
+  exitFailure(new MigrationError("7d4b10", "Run 'db:migrate' to update the schema snapshot."));
+}
+
+/**
+ * Reports risky operations in the pending migrations, exiting with a non-zero code when a violation
+ * is at or above the `failOn` severity.
+ *
+ * @param opts Options for running the script.
+ * @param opts.failOn The lowest severity that fails the lint.
+ */
+export async function lint(opts?: { failOn?: LintSeverity }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // lint the pending migrations
+  let feed = ora({ stream: process.stdout }).start("Linting pending migrations ...");
+  const res = await kyselyx.lint({ failOn: opts?.failOn });
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
+  const { migrations, violations, suppressed, failed } = res.value;
+  if (violations.length === 0) feed.succeed(`No violations found in ${migrations.length} pending migration(s).`);
+  else feed.warn(`Found ${violations.length} violation(s) in ${migrations.length} pending migration(s).`);
+
+  // print the violations
+  if (violations.length > 0) {
+    console.log();
+    printTable(
+      ["Migration", "Rule", "Severity", "Message"],
+      violations.map((v) => [v.migrationName, v.rule, v.severity, v.message]),
+    );
+  }
+  if (suppressed.length > 0) console.log(`${suppressed.length} violation(s) were suppressed.`);
+
+  if (failed) exitFailure(new MigrationError("f60a2d", "Lint failed, fix or suppress the violations above."));
+}
+
+/**
+ * Applies, reverts and re-applies every migration and seed on the scratch database, exiting with a
+ * non-zero code when any of them cannot be reverted cleanly.
+ */
+export async function verify() {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // verify the migrations & seeds
+  let feed = ora({ stream: process.stdout }).start("Verifying migrations and seeds ...");
+  const res = await kyselyx.verify();
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
+  const items = [
+    ...res.value.migrations.map((it) => ({ ...it, type: "migration" })),
+    ...res.value.seeds.map((it) => ({ ...it, type: "seed" })),
+  ];
+  const failed = items.filter((it) => !it.reversible);
+  if (failed.length === 0)
+    return void feed.succeed(`Verified ${items.length} migration(s) and seed(s) are reversible.`);
+  feed.fail(`Found ${failed.length} migration(s) or seed(s) that are not reversible.`);
+
+  // print the problems
+  console.log();
+  printTable(
+    ["Type", "Name", "Problem"],
+    failed.flatMap((it) => it.problems.map((problem) => [it.type, it.name, problem])),
+  );
+  exitFailure(new MigrationError("e2c9b4", "Verification failed, fix the 'down' functions listed above."));
+}
+
+/**
+ * Record the migrations up to (and including) the specified migration as applied without running
+ * them.
+ *
+ * @param name The name of the last migration to record.
+ */
+export async function baseline(name: string) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // record the migrations
+  let feed = ora({ stream: process.stdout }).start("Recording migrations ...");
+  const res = await kyselyx.baseline(name);
+  if (res.isErr()) {
+    if (res.error instanceof NotFoundError) return void feed.fail(res.error.message);
+    feed.stop();
+    exitFailure(res.error);
+  }
+
+  // update the schema snapshot & types
+  await updateSchemaFiles(kyselyx, feed);
+
+  const recorded = res.value.migrations.filter((it) => it.status === "Success");
+  if (recorded.length === 0) feed.succeed("No migrations to record.");
+  else feed.succeed(`Recorded ${recorded.length} migration(s) as applied without running them.`);
+}
+
+/**
+ * Squash the migrations up to (and including) the specified migration into a baseline migration.
+ *
+ * @param opts Options for running the script.
+ * @param opts.until The name of the last migration to squash.
+ */
+export async function squash(opts: { until: string }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // squash the migrations
+  let feed = ora({ stream: process.stdout }).start("Squashing migrations ...");
+  const res = await kyselyx.squash(opts.until);
+  if (res.isErr()) {
+    if (res.error instanceof NotFoundError) return void feed.fail(res.error.message);
+    feed.stop();
+    exitFailure(res.error);
+  }
+  feed.succeed(`Squashed ${res.value.squashed.length} migration(s) into "${res.value.migration}".`);
 }
 
 /**
@@ -265,23 +366,22 @@ export async function status() {
  * @param name The label of the migration to generate.
  * @param opts Options for generating the migration file.
  * @param opts.js Generate a JavaScript migration file.
+ * @param opts.fromDiff Generate the migration from the changes between the schema snapshot and the
+ * database.
+ * @param opts.target A module exporting the target schema to diff against instead of the database.
  */
-export async function generate(name: string, opts = { js: false }) {
-  const { migrationsFolder } = getConfig().match((i) => i, exitFailure);
+export async function generate(name: string, opts: { js?: boolean; fromDiff?: boolean; target?: string } = {}) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
 
   // generate the migration file
   let feed = ora({ stream: process.stdout }).start("Generating migration ...");
-  const migrationId = `${Date.now()}_${name}`;
-  await fs.ensureDir(migrationsFolder).catch((e) => exitFailure(FileSystemError.fromThrown("353782")(e)));
-  if (opts.js) {
-    await fs
-      .writeFile(path.resolve(migrationsFolder, `${migrationId}.js`), templateJs)
-      .catch((e) => exitFailure(FileSystemError.fromThrown("1d7ef4")(e)));
-    feed.succeed(`Created migration file: "${migrationId}.js"`);
-  } else {
-    await fs
-      .writeFile(path.resolve(migrationsFolder, `${migrationId}.ts`), templateTs)
-      .catch((e) => exitFailure(FileSystemError.fromThrown("992638")(e)));
-    feed.succeed(`Created migration file: "${migrationId}.ts"`);
+  const res = await kyselyx.generateMigration(name, opts);
+  if (res.isErr()) {
+    if (res.error instanceof NotFoundError) return void feed.fail(res.error.message);
+    feed.stop();
+    exitFailure(res.error);
   }
+  feed.succeed(`Created migration file: "${res.value}"`);
 }
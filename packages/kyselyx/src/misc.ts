@@ -1,59 +1,114 @@
-import ora, { type Options } from "ora";
-import { getConfig, MIGRATION_LOCK_TABLE_NAME, MIGRATION_TABLE_NAME, SEED_TABLE_NAME } from "./config.js";
-import { migrate, undoAll as undoAllMigrations } from "./migrate.js";
-import { seed, undoAll as undoAllSeeds } from "./seed.js";
-import { exitFailure } from "./utils.js";
+import ora from "ora";
+import { getConfig } from "./config.js";
+import { Kyselyx } from "./kyselyx.js";
+import {
+  confirmDestructive,
+  exitFailure,
+  getDroppedItems,
+  getMetadataTables,
+  type IConfirmOptions,
+  updateSchemaFiles,
+} from "./utils.js";
 
 /**
  * Reverts all seeds, migrations, and deletes all metadata (locks, seeds/migration metadata) from
  * the database. This is an escape hatch to reset a database to 'like new'.
+ *
+ * @param opts Options for running the script.
+ * @param opts.yes Skip the confirmation prompt.
+ * @param opts.allowProtected Run the command even if the environment is protected.
  */
-export async function purge(opts?: { ora?: Options }) {
-  let feed = ora({ stream: process.stdout, ...opts?.ora });
+export async function purge(opts?: IConfirmOptions) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
 
-  // undo seeds & migrations
-  feed.start("Undoing seeds ...");
-  await undoAllSeeds({ ora: { isSilent: true } });
-  feed.text = "Undoing migrations ...";
-  await undoAllMigrations({ ora: { isSilent: true } });
+  // confirm the command
+  const status = (await kyselyx.status()).match((i) => i, exitFailure);
+  const items = getDroppedItems(status, { migrations: true, tables: getMetadataTables(kyselyx.config) });
+  const confirmed = (await confirmDestructive("db:purge", items, opts ?? {})).match((i) => i, exitFailure);
+  if (!confirmed) return void console.log("Aborted, no changes were made.");
 
-  // drop metadata tables
-  const {
-    stores: { db },
-  } = getConfig().match((i) => i, exitFailure);
-
-  feed.text = "Dropping kyselyx metadata tables ...";
-  await db.schema.dropTable(SEED_TABLE_NAME).ifExists().execute();
-  await db.schema.dropTable(MIGRATION_TABLE_NAME).ifExists().execute();
-  await db.schema.dropTable(MIGRATION_LOCK_TABLE_NAME).ifExists().execute();
+  let feed = ora({ stream: process.stdout }).start("Purging the database ...");
+  const res = await kyselyx.purge({ allowProtected: opts?.allowProtected });
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
 
   feed.succeed("Successfully purged the database.");
 }
 
 /**
  * Runs all pending migrations and seeds.
+ *
+ * @param opts Options for running the script.
+ * @param opts.allowDrift Apply migrations even if applied migration files have been modified.
  */
-export async function setup(opts?: { ora?: Options }) {
-  let feed = ora({ stream: process.stdout, ...opts?.ora });
+export async function setup(opts?: { allowDrift?: boolean }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  let feed = ora({ stream: process.stdout }).start("Running migrations and seeds ...");
+  const res = await kyselyx.setup({ allowDrift: opts?.allowDrift });
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
 
-  feed.start("Running migrations ...");
-  await migrate(undefined, { ora: { isSilent: true } });
-  feed.text = "Running seeds ...";
-  await seed(undefined, { ora: { isSilent: true } });
+  // update the schema snapshot & types
+  await updateSchemaFiles(kyselyx, feed);
 
   feed.succeed("Database setup complete.");
 }
 
 /**
  * Purges the database and then runs all migrations and seeds.
+ *
+ * @param opts Options for running the script.
+ * @param opts.yes Skip the confirmation prompt.
+ * @param opts.allowProtected Run the command even if the environment is protected.
  */
-export async function reset() {
-  let feed = ora({ stream: process.stdout });
+export async function reset(opts?: IConfirmOptions) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // confirm the command
+  const status = (await kyselyx.status()).match((i) => i, exitFailure);
+  const items = getDroppedItems(status, { migrations: true, tables: getMetadataTables(kyselyx.config) });
+  const confirmed = (await confirmDestructive("db:reset", items, opts ?? {})).match((i) => i, exitFailure);
+  if (!confirmed) return void console.log("Aborted, no changes were made.");
 
-  feed.start("Puring the database ...");
-  await purge({ ora: { isSilent: true } });
-  feed.text = "Running migrations and seeds ...";
-  await setup({ ora: { isSilent: true } });
+  let feed = ora({ stream: process.stdout }).start("Resetting the database ...");
+  const res = await kyselyx.reset({ allowProtected: opts?.allowProtected });
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
+
+  // update the schema snapshot & types
+  await updateSchemaFiles(kyselyx, feed);
 
   feed.succeed("Database reset complete.");
 }
+
+/**
+ * Generates the `Database` interface of the migrated schema.
+ */
+export async function generateTypes() {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // generate the types file
+  let feed = ora({ stream: process.stdout }).start("Generating database types ...");
+  const res = await kyselyx.generateTypes();
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
+
+  feed.succeed(`Created types file: "${res.value}"`);
+}
@@ -0,0 +1,484 @@
+import { type Kysely, MysqlAdapter, PostgresAdapter, sql, SqliteAdapter, type TableMetadata } from "kysely";
+import { type Result, ResultAsync } from "neverthrow";
+import { KyselyError } from "./errors.js";
+
+export interface IColumnSnapshot {
+  name: string;
+  dataType: string;
+  isNullable: boolean;
+  hasDefaultValue: boolean;
+  /**
+   * The SQL expression of the default value as the database reports it, or `null` if the column has
+   * no default.
+   */
+  defaultValue: string | null;
+  isAutoIncrementing: boolean;
+}
+
+export interface IIndexSnapshot {
+  name: string;
+  columns: string[];
+  isUnique: boolean;
+  /**
+   * Whether the index is partial or indexes expressions, which `columns` doesn't describe.
+   */
+  hasExpressions: boolean;
+}
+
+export interface IUniqueConstraintSnapshot {
+  /**
+   * The name of the constraint, or `null` on dialects which don't report it such as SQLite.
+   */
+  name: string | null;
+  columns: string[];
+}
+
+export interface IForeignKeySnapshot {
+  /**
+   * The name of the constraint, or `null` on dialects which don't report it such as SQLite.
+   */
+  name: string | null;
+  columns: string[];
+  /**
+   * The name of the referenced table, prefixed with its schema like `ITableSnapshot.name`.
+   */
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete: ForeignKeyAction;
+  onUpdate: ForeignKeyAction;
+}
+
+export type ForeignKeyAction = "no action" | "restrict" | "cascade" | "set null" | "set default";
+
+export interface ITableSnapshot {
+  /**
+   * The name of the table, prefixed with its schema when the dialect reports one.
+   */
+  name: string;
+  isView: boolean;
+  columns: IColumnSnapshot[];
+  /**
+   * The columns of the primary key in key order, empty if the table has none.
+   */
+  primaryKey: string[];
+  uniqueConstraints: IUniqueConstraintSnapshot[];
+  /**
+   * The indexes created outside of the primary key and unique constraints.
+   */
+  indexes: IIndexSnapshot[];
+  foreignKeys: IForeignKeySnapshot[];
+}
+
+/**
+ * A canonical description of the database schema. Tables, columns and constraints are sorted so two
+ * snapshots of the same schema are always equal.
+ *
+ * Note: The constraints, indexes and defaults are only read on the built-in dialects, and check
+ * constraints, triggers and the definition of views are not part of the snapshot.
+ */
+export interface ISchemaSnapshot {
+  tables: ITableSnapshot[];
+}
+
+/**
+ * The parts of a table which `db.introspection` does not report.
+ */
+type TableDetails = Pick<ITableSnapshot, "primaryKey" | "uniqueConstraints" | "indexes" | "foreignKeys"> & {
+  defaults: Record<string, string | null>;
+};
+
+/**
+ * Introspects the database and returns a snapshot of its schema.
+ *
+ * @param db The database to introspect.
+ * @param exclude The names of tables to leave out, such as the Kyselyx metadata tables.
+ */
+export async function getSchemaSnapshot(
+  db: Kysely<any>,
+  exclude: string[] = [],
+): Promise<Result<ISchemaSnapshot, KyselyError>> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      const tables: ITableSnapshot[] = [];
+      for (const table of await db.introspection.getTables()) {
+        if (exclude.includes(table.name)) continue;
+
+        const details = table.isView ? null : await getTableDetails(db, table);
+        const byColumns = (a: { columns: string[] }, b: { columns: string[] }) =>
+          a.columns.join().localeCompare(b.columns.join());
+        tables.push({
+          name: qualifiedName(table.schema, table.name),
+          isView: table.isView,
+          columns: table.columns
+            .map(({ name, dataType, isNullable, hasDefaultValue, isAutoIncrementing }) => ({
+              name,
+              dataType,
+              isNullable,
+              hasDefaultValue,
+              defaultValue: details?.defaults[name] ?? null,
+              isAutoIncrementing,
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+          primaryKey: details?.primaryKey ?? [],
+          uniqueConstraints: (details?.uniqueConstraints ?? []).sort(byColumns),
+          indexes: (details?.indexes ?? []).sort((a, b) => a.name.localeCompare(b.name)),
+          foreignKeys: (details?.foreignKeys ?? []).sort(byColumns),
+        });
+      }
+      return { tables: tables.sort((a, b) => a.name.localeCompare(b.name)) };
+    })(),
+    KyselyError.fromThrown("d07a5e"),
+  );
+}
+
+function qualifiedName(schema: string | undefined, name: string) {
+  return schema ? `${schema}.${name}` : name;
+}
+
+/**
+ * Reads the constraints, indexes and column defaults of a table. Only the built-in dialects are
+ * supported, other dialects report none.
+ */
+async function getTableDetails(db: Kysely<any>, table: TableMetadata): Promise<TableDetails> {
+  const { adapter } = db.getExecutor();
+  if (adapter instanceof SqliteAdapter) return getSqliteTableDetails(db, table.name);
+  else if (adapter instanceof PostgresAdapter) return getPostgresTableDetails(db, table.schema ?? "public", table.name);
+  else if (adapter instanceof MysqlAdapter) return getMysqlTableDetails(db, table.schema, table.name);
+  else return { defaults: {}, primaryKey: [], uniqueConstraints: [], indexes: [], foreignKeys: [] };
+}
+
+async function getSqliteTableDetails(db: Kysely<any>, table: string): Promise<TableDetails> {
+  const getColumns = async (table: string) =>
+    (
+      await sql<{
+        name: string;
+        dflt_value: string | null;
+        pk: number;
+      }>`select name, dflt_value, pk from pragma_table_info(${table})`.execute(db)
+    ).rows;
+  const getPrimaryKey = (columns: { name: string; pk: number }[]) =>
+    columns
+      .filter((it) => it.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map((it) => it.name);
+
+  const columns = await getColumns(table);
+  const details: TableDetails = {
+    defaults: Object.fromEntries(columns.map((it) => [it.name, it.dflt_value])),
+    primaryKey: getPrimaryKey(columns),
+    uniqueConstraints: [],
+    indexes: [],
+    foreignKeys: [],
+  };
+
+  const { rows: indexes } = await sql<{
+    name: string;
+    unique: number;
+    origin: "c" | "u" | "pk";
+    partial: number;
+  }>`select name, "unique", origin, partial from pragma_index_list(${table})`.execute(db);
+  for (const index of indexes) {
+    if (index.origin === "pk") continue;
+    const { rows: keys } = await sql<{
+      name: string | null;
+    }>`select name from pragma_index_info(${index.name}) order by seqno`.execute(db);
+    const indexColumns = keys.flatMap((it) => (it.name === null ? [] : [it.name]));
+
+    if (index.origin === "u") details.uniqueConstraints.push({ name: null, columns: indexColumns });
+    else
+      details.indexes.push({
+        name: index.name,
+        columns: indexColumns,
+        isUnique: index.unique === 1,
+        hasExpressions: index.partial === 1 || indexColumns.length < keys.length,
+      });
+  }
+
+  const { rows: references } = await sql<{
+    id: number;
+    table: string;
+    from: string;
+    to: string | null;
+    on_update: string;
+    on_delete: string;
+  }>`select id, "table", "from", "to", on_update, on_delete from pragma_foreign_key_list(${table}) order by id, seq`.execute(
+    db,
+  );
+  for (const id of new Set(references.map((it) => it.id))) {
+    const columns = references.filter((it) => it.id === id);
+    const [{ table: referencedTable, on_update, on_delete }] = columns as [(typeof columns)[number]];
+    // a reference without columns targets the primary key of the referenced table
+    const referencedColumns = columns.some((it) => it.to === null)
+      ? getPrimaryKey(await getColumns(referencedTable))
+      : columns.map((it) => it.to!);
+
+    details.foreignKeys.push({
+      name: null,
+      columns: columns.map((it) => it.from),
+      referencedTable,
+      referencedColumns,
+      onDelete: on_delete.toLowerCase() as ForeignKeyAction,
+      onUpdate: on_update.toLowerCase() as ForeignKeyAction,
+    });
+  }
+
+  return details;
+}
+
+async function getPostgresTableDetails(db: Kysely<any>, schema: string, table: string): Promise<TableDetails> {
+  const actions: Record<string, ForeignKeyAction> = {
+    a: "no action",
+    r: "restrict",
+    c: "cascade",
+    n: "set null",
+    d: "set default",
+  };
+  const details: TableDetails = { defaults: {}, primaryKey: [], uniqueConstraints: [], indexes: [], foreignKeys: [] };
+
+  const { rows: columns } = await sql<{ column_name: string; column_default: string | null }>`
+    select column_name, column_default from information_schema.columns
+    where table_schema = ${schema} and table_name = ${table}
+  `.execute(db);
+  for (const column of columns) details.defaults[column.column_name] = column.column_default;
+
+  const { rows: constraints } = await sql<{
+    name: string;
+    type: "p" | "u" | "f";
+    columns: string[];
+    ref_schema: string | null;
+    ref_table: string | null;
+    ref_columns: string[];
+    on_update: string;
+    on_delete: string;
+  }>`
+    select
+      con.conname as name,
+      con.contype as type,
+      array(
+        select a.attname from unnest(con.conkey) with ordinality as k(attnum, n)
+        join pg_attribute a on a.attrelid = con.conrelid and a.attnum = k.attnum order by k.n
+      )::text[] as columns,
+      ref_ns.nspname as ref_schema,
+      ref.relname as ref_table,
+      array(
+        select a.attname from unnest(con.confkey) with ordinality as k(attnum, n)
+        join pg_attribute a on a.attrelid = con.confrelid and a.attnum = k.attnum order by k.n
+      )::text[] as ref_columns,
+      con.confupdtype as on_update,
+      con.confdeltype as on_delete
+    from pg_constraint con
+    join pg_class rel on rel.oid = con.conrelid
+    join pg_namespace ns on ns.oid = rel.relnamespace
+    left join pg_class ref on ref.oid = con.confrelid
+    left join pg_namespace ref_ns on ref_ns.oid = ref.relnamespace
+    where ns.nspname = ${schema} and rel.relname = ${table} and con.contype in ('p', 'u', 'f')
+  `.execute(db);
+  for (const constraint of constraints) {
+    if (constraint.type === "p") details.primaryKey = constraint.columns;
+    else if (constraint.type === "u")
+      details.uniqueConstraints.push({ name: constraint.name, columns: constraint.columns });
+    else
+      details.foreignKeys.push({
+        name: constraint.name,
+        columns: constraint.columns,
+        referencedTable: qualifiedName(constraint.ref_schema ?? undefined, constraint.ref_table!),
+        referencedColumns: constraint.ref_columns,
+        onDelete: actions[constraint.on_delete] ?? "no action",
+        onUpdate: actions[constraint.on_update] ?? "no action",
+      });
+  }
+
+  // the indexes which back a constraint are described by the constraint
+  const { rows: indexes } = await sql<{
+    name: string;
+    is_unique: boolean;
+    has_expressions: boolean;
+    columns: string[];
+  }>`
+    select
+      i.relname as name,
+      ix.indisunique as is_unique,
+      ix.indpred is not null or ix.indexprs is not null as has_expressions,
+      array(
+        select a.attname from unnest(ix.indkey::int2[]) with ordinality as k(attnum, n)
+        join pg_attribute a on a.attrelid = ix.indrelid and a.attnum = k.attnum order by k.n
+      )::text[] as columns
+    from pg_index ix
+    join pg_class i on i.oid = ix.indexrelid
+    join pg_class rel on rel.oid = ix.indrelid
+    join pg_namespace ns on ns.oid = rel.relnamespace
+    where ns.nspname = ${schema} and rel.relname = ${table}
+      and not exists (select 1 from pg_constraint con where con.conindid = ix.indexrelid)
+  `.execute(db);
+  for (const index of indexes)
+    details.indexes.push({
+      name: index.name,
+      columns: index.columns,
+      isUnique: index.is_unique,
+      hasExpressions: index.has_expressions,
+    });
+
+  return details;
+}
+
+async function getMysqlTableDetails(db: Kysely<any>, schema: string | undefined, table: string): Promise<TableDetails> {
+  const details: TableDetails = { defaults: {}, primaryKey: [], uniqueConstraints: [], indexes: [], foreignKeys: [] };
+  const currentSchema = schema ?? sql`database()`;
+
+  // MySQL reports literal defaults without quotes, and expressions as `DEFAULT_GENERATED` without
+  // the parentheses they are declared with
+  const { rows: columns } = await sql<{ name: string; value: string | null; extra: string }>`
+    select column_name as name, column_default as value, extra from information_schema.columns
+    where table_schema = ${currentSchema} and table_name = ${table}
+  `.execute(db);
+  for (const { name, value, extra } of columns) {
+    if (value === null || /^-?\d+(\.\d+)?$/.test(value)) details.defaults[name] = value;
+    else if (!/DEFAULT_GENERATED/i.test(extra)) details.defaults[name] = `'${value.replace(/'/g, "''")}'`;
+    else details.defaults[name] = /^current_timestamp/i.test(value) ? value : `(${value})`;
+  }
+
+  // unique constraints are unique indexes in MySQL
+  const { rows: keys } = await sql<{
+    name: string;
+    non_unique: number;
+    column_name: string | null;
+    has_expressions: number;
+  }>`
+    select index_name as name, non_unique, column_name, expression is not null as has_expressions
+    from information_schema.statistics
+    where table_schema = ${currentSchema} and table_name = ${table}
+    order by index_name, seq_in_index
+  `.execute(db);
+  for (const name of new Set(keys.map((it) => it.name))) {
+    const parts = keys.filter((it) => it.name === name);
+    const columns = parts.flatMap((it) => (it.column_name === null ? [] : [it.column_name]));
+    if (name === "PRIMARY") details.primaryKey = columns;
+    else
+      details.indexes.push({
+        name,
+        columns,
+        isUnique: Number(parts[0]!.non_unique) === 0,
+        hasExpressions: parts.some((it) => Number(it.has_expressions) === 1),
+      });
+  }
+
+  const { rows: references } = await sql<{
+    name: string;
+    column_name: string;
+    ref_schema: string;
+    ref_table: string;
+    ref_column: string;
+    on_update: string;
+    on_delete: string;
+  }>`
+    select
+      k.constraint_name as name,
+      k.column_name,
+      k.referenced_table_schema as ref_schema,
+      k.referenced_table_name as ref_table,
+      k.referenced_column_name as ref_column,
+      r.update_rule as on_update,
+      r.delete_rule as on_delete
+    from information_schema.key_column_usage k
+    join information_schema.referential_constraints r
+      on r.constraint_schema = k.constraint_schema and r.constraint_name = k.constraint_name
+    where k.table_schema = ${currentSchema} and k.table_name = ${table} and k.referenced_table_name is not null
+    order by k.constraint_name, k.ordinal_position
+  `.execute(db);
+  for (const name of new Set(references.map((it) => it.name))) {
+    const columns = references.filter((it) => it.name === name);
+    const [first] = columns as [(typeof columns)[number]];
+    details.foreignKeys.push({
+      name,
+      columns: columns.map((it) => it.column_name),
+      referencedTable: qualifiedName(first.ref_schema, first.ref_table),
+      referencedColumns: columns.map((it) => it.ref_column),
+      onDelete: first.on_delete.toLowerCase() as ForeignKeyAction,
+      onUpdate: first.on_update.toLowerCase() as ForeignKeyAction,
+    });
+  }
+
+  return details;
+}
+
+/**
+ * Describes each difference between two snapshots, an empty list means they are equal.
+ *
+ * @param expected The snapshot the schema should match.
+ * @param actual The snapshot of the schema.
+ */
+export function diffSnapshots(expected: ISchemaSnapshot, actual: ISchemaSnapshot): string[] {
+  const differences: string[] = [];
+  const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+  for (const table of expected.tables) {
+    const other = actual.tables.find((t) => t.name === table.name);
+    if (!other) {
+      differences.push(`Table "${table.name}" is missing.`);
+      continue;
+    }
+    for (const column of table.columns) {
+      const otherColumn = other.columns.find((c) => c.name === column.name);
+      if (!otherColumn) differences.push(`Column "${table.name}.${column.name}" is missing.`);
+      else if (!isEqual(column, otherColumn)) differences.push(`Column "${table.name}.${column.name}" has changed.`);
+    }
+    for (const column of other.columns.filter((c) => !table.columns.some((it) => it.name === c.name)))
+      differences.push(`Column "${table.name}.${column.name}" is unexpected.`);
+
+    if (!isEqual(table.primaryKey, other.primaryKey))
+      differences.push(`The primary key of table "${table.name}" has changed.`);
+    if (!isEqual(table.uniqueConstraints, other.uniqueConstraints))
+      differences.push(`The unique constraints of table "${table.name}" have changed.`);
+    if (!isEqual(table.foreignKeys, other.foreignKeys))
+      differences.push(`The foreign keys of table "${table.name}" have changed.`);
+    for (const index of table.indexes) {
+      const otherIndex = other.indexes.find((it) => it.name === index.name);
+      if (!otherIndex) differences.push(`Index "${index.name}" on table "${table.name}" is missing.`);
+      else if (!isEqual(index, otherIndex))
+        differences.push(`Index "${index.name}" on table "${table.name}" has changed.`);
+    }
+    for (const index of other.indexes.filter((i) => !table.indexes.some((it) => it.name === i.name)))
+      differences.push(`Index "${index.name}" on table "${table.name}" is unexpected.`);
+  }
+  for (const table of actual.tables.filter((t) => !expected.tables.some((it) => it.name === t.name)))
+    differences.push(`Table "${table.name}" is unexpected.`);
+
+  return differences;
+}
+
+/**
+ * Describes each table whose row count differs between two sets of counts.
+ *
+ * @param expected The row counts the tables should have.
+ * @param actual The row counts of the tables.
+ */
+export function diffRowCounts(expected: Record<string, number>, actual: Record<string, number>): string[] {
+  return Object.entries(expected)
+    .filter(([table, count]) => actual[table] !== count)
+    .map(([table, count]) => `Table "${table}" has ${actual[table] ?? 0} row(s), expected ${count}.`);
+}
+
+/**
+ * Returns the number of rows in each table of the snapshot, keyed by table name. Views are skipped.
+ *
+ * @param db The database containing the tables.
+ * @param snapshot The snapshot listing the tables.
+ */
+export async function getRowCounts(
+  db: Kysely<any>,
+  snapshot: ISchemaSnapshot,
+): Promise<Result<Record<string, number>, KyselyError>> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      const counts: Record<string, number> = {};
+      for (const { name } of snapshot.tables.filter((t) => !t.isView)) {
+        const row = await db
+          .selectFrom(name)
+          .select((eb) => eb.fn.countAll().as("count"))
+          .executeTakeFirstOrThrow();
+        counts[name] = Number(row.count);
+      }
+      return counts;
+    })(),
+    KyselyError.fromThrown("41c9fb"),
+  );
+}
@@ -1,85 +1,18 @@
-import fs from "fs-extra";
 import ora, { type Options } from "ora";
-import path from "path";
 import "tsx/esm"; // This MUST be imported for the tests to run properly!
 import { getConfig } from "./config.js";
-import { FileSystemError, SeedError } from "./errors.js";
-import { NO_SEEDS, type NoSeeds } from "./seeder/seed.js";
+import { NotFoundError } from "./errors.js";
+import { Kyselyx } from "./kyselyx.js";
 import {
-  doesNameMatch,
+  confirmDestructive,
   exitFailure,
-  exitOk,
-  getSeeder,
-  getSeeds,
-  getTargetSeed,
-  isNoSeeds,
-  type Seed,
+  getBoundMigration,
+  getDroppedItems,
+  type IConfirmOptions,
+  printDryRun,
+  printTable,
 } from "./utils.js";
 
-/**
- * Returns the string contents of a new seed file.
- *
- * @param configFile The path to the Kyselyx configuration file.
- * @param seedFile The path to the seed file.
- */
-function tempalateJs(configFile: string, seedFile: string) {
-  // get the relative path of the config file from the seed file
-  let relativePath = path.relative(path.dirname(seedFile), configFile);
-  // ensure the extension is ".js"
-  relativePath = relativePath.replace(/\.\w+$/, ".js");
-
-  return [
-    `/**`,
-    ` * The 'up' function runs when the seed is applied.`,
-    ` *`,
-    ` * @param {import("${relativePath}")["default"]["stores"]} stores`,
-    ` * @returns {Promise<void>}`,
-    ` */`,
-    `async function up({ db }) {}`,
-    ``,
-    `/**`,
-    ` * The 'down' function runs when the seed is removed.`,
-    ` *`,
-    ` * @param {import("${relativePath}")["default"]["stores"]} stores`,
-    ` * @returns {Promise<void>}`,
-    ` */`,
-    `async function down({ db }) {}`,
-    ``,
-    `export { up, down };`,
-  ].join("\n");
-}
-
-/**
- * Returns the string contents of a new seed file.
- *
- * @param configFile The path to the Kyselyx configuration file.
- * @param seedFile The path to the seed file.
- */
-function templateTs(configFile: string, seedFile: string) {
-  // get the relative path of the config file from the seed file
-  let relativePath = path.relative(path.dirname(seedFile), configFile);
-  // ensure the extension is ".ts"
-  relativePath = relativePath.replace(/\.\w+$/, ".ts");
-
-  return [
-    `import type config from "${relativePath}";`,
-    ``,
-    `type IStores = typeof config.stores;`,
-    ``,
-    `/**`,
-    ` * The 'up' function runs when the seed is applied.`,
-    ` */`,
-    `async function up({ db }: IStores): Promise<void> {}`,
-    ``,
-    `/**`,
-    ` * The 'down' function runs when the seed is removed.`,
-    ` */`,
-    `async function down({ db }: IStores): Promise<void> {}`,
-    ``,
-    `export { up, down };`,
-  ].join("\n");
-}
-
 /**
  * Applies all seeds up to the latest seed, or to the specified seed.
  *
@@ -88,46 +21,32 @@ function templateTs(configFile: string, seedFile: string) {
  *
  * @param name The name of the seed to seed to.
  * @param opts Options for running the script.
+ * @param opts.dryRun Print the SQL each seed would execute instead of running it.
+ * @param opts.step The number of pending seeds to apply.
  * @param opts.ora Options for the spinner.
  */
-export async function seed(name?: string, opts?: { ora?: Options }) {
-  const seeder = getSeeder().match((i) => i, exitFailure);
-
-  // retrieve all seeds
-  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Getting seeds ...");
-  const { allSeeds } = (await getSeeds(seeder)).match((i) => i, exitFailure);
-  feed.clear();
-
-  // find the seed (if supplied)
-  let seed: Seed | undefined;
-  if (name) {
-    seed = allSeeds.find(doesNameMatch(name));
-    if (!seed) exitFailure(new SeedError("eb3df1", `Could not find a seed to seed to.`));
-  }
-
-  // get the target seed
-  feed.start("Finding target seed ...");
-  const targetSeed = (await getTargetSeed({ seed })).match((i) => i, exitFailure);
+export async function seed(name?: string, opts?: { dryRun?: boolean; step?: number; ora?: Options }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
 
   // apply the seeds
-  feed.start("Applying seeds ...");
-  const { error, results } = await seeder.seedTo(isNoSeeds(targetSeed) ? NO_SEEDS : targetSeed.name);
+  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Applying seeds ...");
+  const res = await kyselyx.seed(name, { dryRun: opts?.dryRun, step: opts?.step });
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
 
-  let numSeedsApplied = 0;
-  let lastAppliedSeed: string | null = null;
+  if (opts?.dryRun) {
+    feed.succeed(`Dry run of ${res.value.seeds.length} seed(s), no changes were made.`);
+    return printDryRun(res.value);
+  }
 
   // process the results
-  results?.forEach((it) => {
-    if (it.status === "Success") {
-      numSeedsApplied += 1;
-      lastAppliedSeed = it.seedName;
-    }
-  });
-
-  if (error) exitFailure(new SeedError("c6d495", "Error applying seeds."));
-
-  if (numSeedsApplied === 0) feed.succeed("No seeds to apply.");
-  else feed.succeed(`Applied ${numSeedsApplied} seeds up to ${lastAppliedSeed} successfully.`);
+  const applied = res.value.seeds.filter((it) => it.status === "Success");
+  if (applied.length === 0) feed.succeed("No seeds to apply.");
+  else feed.succeed(`Applied ${applied.length} seeds up to ${applied.at(-1)!.seedName} successfully.`);
 }
 
 /**
@@ -135,108 +54,146 @@ export async function seed(name?: string, opts?: { ora?: Options }) {
  *
  * @param name The name of the seed to rollback to.
  * @param opts Options for running the script.
+ * @param opts.dryRun Print the SQL each seed would execute instead of running it.
+ * @param opts.step The number of applied seeds to revert.
  * @param opts.ora Options for the spinner.
  */
-export async function undo(name?: string, opts?: { ora?: Options }) {
-  const seeder = getSeeder().match((i) => i, exitFailure);
-
-  // retrieve all seeds
-  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Getting seeds ...");
-  const { appliedSeeds } = (await getSeeds(seeder)).match((i) => i, exitFailure);
+export async function undo(name?: string, opts?: { dryRun?: boolean; step?: number; ora?: Options }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
 
-  // find the seed to rollback to
-  let seed: Seed | NoSeeds | undefined;
-  if (name) {
-    const namedSeed = appliedSeeds.find(doesNameMatch(name));
-    if (namedSeed) {
-      const namedSeedIdx = appliedSeeds.indexOf(namedSeed);
-      if (namedSeedIdx === -1) exitFailure(new SeedError("f4b692", "Could not find seed to rollback to."));
-      else if (namedSeedIdx === 0) seed = NO_SEEDS;
-      else seed = appliedSeeds.at(namedSeedIdx - 1);
-    }
-  } else {
-    if (appliedSeeds.length > 1) seed = appliedSeeds.at(-2);
-    else if (appliedSeeds.length === 1) seed = NO_SEEDS;
+  // rollback the seeds
+  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Rolling back seeds ...");
+  const res = await kyselyx.undoSeeds(name, { dryRun: opts?.dryRun, step: opts?.step });
+  if (res.isErr()) {
+    if (res.error instanceof NotFoundError) return void feed.fail(res.error.message);
+    feed.stop();
+    exitFailure(res.error);
   }
 
-  if (!seed) {
-    if (name) feed.fail(`Could not find seed to rollback to.`);
-    else feed.succeed(`No seeds to rollback.`);
-    return;
+  if (opts?.dryRun) {
+    feed.succeed(`Dry run of ${res.value.seeds.length} seed(s), no changes were made.`);
+    return printDryRun(res.value);
   }
 
-  // rollback the seeds
-  feed.start("Rolling back seeds ...");
-  const { error, results } = await seeder.seedTo(isNoSeeds(seed) ? NO_SEEDS : seed.name);
-
-  let numSeedsDropped = 0;
-
   // process the results
-  results?.forEach((it) => {
-    if (it.status === "Success") numSeedsDropped += 1;
-  });
-
-  if (error) exitFailure(new SeedError("bc184e", "Error rolling back seeds."));
-
-  feed.succeed(`Dropped ${numSeedsDropped} seed(s) successfully .`);
+  const numSeedsDropped = res.value.seeds.filter((it) => it.status === "Success").length;
+  if (numSeedsDropped === 0) feed.succeed("No seeds to rollback.");
+  else feed.succeed(`Dropped ${numSeedsDropped} seed(s) successfully.`);
 }
 
 /**
  * Undo all seeds.
  *
  * @param opts Options for running the script.
+ * @param opts.yes Skip the confirmation prompt.
+ * @param opts.allowProtected Run the command even if the environment is protected.
  * @param opts.ora Options for the spinner.
  */
-export async function undoAll(opts: { ora?: Options }) {
-  const seeder = getSeeder().match((i) => i, exitFailure);
+export async function undoAll(opts?: IConfirmOptions & { ora?: Options }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
 
-  // retrieve all seeds
-  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Getting seeds ...");
-  const { appliedSeeds } = (await getSeeds(seeder)).match((i) => i, exitFailure);
-  feed.clear();
-
-  if (appliedSeeds.length === 0) {
-    feed.succeed("No seeds to rollback.");
-    return;
-  }
+  // confirm the command
+  const status = (await kyselyx.status()).match((i) => i, exitFailure);
+  const items = getDroppedItems(status);
+  const confirmed = (await confirmDestructive("db:seed:undo:all", items, opts ?? {})).match((i) => i, exitFailure);
+  if (!confirmed) return void console.log("Aborted, no changes were made.");
 
   // rollback all seeds
-  feed.start("Rolling back seeds ...");
-  const { error, results } = await seeder.seedTo(NO_SEEDS);
-  feed.clear();
-
-  let numSeedsDropped = 0;
+  let feed = ora({ stream: process.stdout, ...opts?.ora }).start("Rolling back seeds ...");
+  const res = await kyselyx.undoAllSeeds({ allowProtected: opts?.allowProtected });
+  if (res.isErr()) {
+    feed.stop();
+    exitFailure(res.error);
+  }
 
   // process the results
-  results?.forEach((it) => {
-    if (it.status === "Success") numSeedsDropped += 1;
-  });
+  const numSeedsDropped = res.value.seeds.filter((it) => it.status === "Success").length;
+  if (numSeedsDropped === 0) feed.succeed("No seeds to rollback.");
+  else feed.succeed(`Rolled back ${numSeedsDropped} seed(s) successfully.`);
+}
 
-  if (error) exitFailure(new SeedError("e2a656", "Error rolling back seeds."));
+/**
+ * Record the seeds up to (and including) the specified seed as applied without running them.
+ *
+ * @param name The name of the last seed to record.
+ */
+export async function baseline(name: string) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
+
+  // record the seeds
+  let feed = ora({ stream: process.stdout }).start("Recording seeds ...");
+  const res = await kyselyx.baselineSeeds(name);
+  if (res.isErr()) {
+    if (res.error instanceof NotFoundError) return void feed.fail(res.error.message);
+    feed.stop();
+    exitFailure(res.error);
+  }
 
-  feed.succeed(`Rolled back ${numSeedsDropped} seeds rolled back successfully.`);
+  const recorded = res.value.seeds.filter((it) => it.status === "Success");
+  if (recorded.length === 0) feed.succeed("No seeds to record.");
+  else feed.succeed(`Recorded ${recorded.length} seed(s) as applied without running them.`);
 }
 
 /**
- * Shows the status of all migrations.
+ * Shows the status of all seeds, including the seeds skipped in the current environment.
+ *
+ * @param opts Options for running the script.
+ * @param opts.json Print the status as JSON instead of a table.
  */
-export async function status() {
-  const seeder = getSeeder().match((i) => i, exitOk);
+export async function status(opts?: { json?: boolean }) {
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
 
-  // retrieve all migrations
-  let feed = ora({ stream: process.stdout }).start("Getting migrations ...");
-  const { allSeeds, appliedSeeds, unappliedSeeds } = (await getSeeds(seeder)).match((i) => i, exitFailure);
+  // retrieve all seeds
+  let feed = ora({ stream: process.stdout, isSilent: opts?.json }).start("Getting seeds ...");
+  const {
+    migrations: { allMigrations },
+    seeds: { allSeeds, appliedSeeds, unappliedSeeds, driftedSeeds, skippedSeeds },
+  } = (await kyselyx.status()).match((i) => i, exitFailure);
   feed.stop();
 
+  // skipped seeds are listed where they would run, in the timestamp order of the seed names
+  const seeds = [...allSeeds, ...skippedSeeds]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((s) => ({
+      name: s.name,
+      timestamp: s.timestamp,
+      label: s.label,
+      status: s.skipped ? "skipped" : s.executedAt ? "applied" : "pending",
+      executedAt: s.executedAt?.toISOString() ?? null,
+      modified: driftedSeeds.some((d) => d.name === s.name),
+      migration: getBoundMigration(s, allMigrations)?.name ?? null,
+    }));
+
+  if (opts?.json) return console.log(JSON.stringify({ seeds }, null, 2));
+
   // print the status
   let statusLine = [
     `Total Seeds: ${allSeeds.length}`,
     `Applied Seeds: ${appliedSeeds.length}`,
     `Unapplied Seeds: ${unappliedSeeds.length}`,
+    `Skipped Seeds${kyselyx.config.env ? ` (${kyselyx.config.env})` : ""}: ${skippedSeeds.length}`,
   ].join("     ");
   console.log(statusLine);
   console.log(Array(statusLine.length).fill("-").join(""));
-  console.log(`Last Applied Seed: ${appliedSeeds.at(-1)?.name || "None"}`);
+  console.log();
+  printTable(
+    ["Timestamp", "Label", "Status", "Executed At", "Migration"],
+    seeds.map((s) => [
+      s.timestamp.toString(),
+      s.label,
+      s.modified ? `${s.status} (modified)` : s.status,
+      s.executedAt ?? "-",
+      s.migration ?? "-",
+    ]),
+  );
 }
 
 /**
@@ -247,23 +204,12 @@ export async function status() {
  * @param opts.js Generate a JavaScript seed file.
  */
 export async function generate(name: string, opts = { js: false }) {
-  const { configFile, seedsFolder } = getConfig().match((i) => i, exitFailure);
+  const kyselyx = getConfig()
+    .map((config) => new Kyselyx(config))
+    .match((i) => i, exitFailure);
 
   // generate the seed file
   let feed = ora({ stream: process.stdout }).start("Generating seed ...");
-  const seedId = `${Date.now()}_${name}`;
-  const seedFile = path.resolve(seedsFolder, `${seedId}.${opts.js ? "js" : "ts"}`);
-
-  await fs.ensureDir(seedsFolder).catch((e) => exitFailure(FileSystemError.fromThrown("6b9a65")(e)));
-  if (opts.js) {
-    await fs
-      .writeFile(path.resolve(seedsFolder, `${seedId}.js`), tempalateJs(configFile, seedFile))
-      .catch((e) => exitFailure(FileSystemError.fromThrown("3b0fb7")(e)));
-    feed.succeed(`Created seed file: "${seedId}.js"`);
-  } else {
-    await fs
-      .writeFile(path.resolve(seedsFolder, `${seedId}.ts`), templateTs(configFile, seedFile))
-      .catch((e) => exitFailure(FileSystemError.fromThrown("8c0fce")(e)));
-    feed.succeed(`Created seed file: "${seedId}.ts"`);
-  }
+  const fileName = (await kyselyx.generateSeed(name, opts)).match((i) => i, exitFailure);
+  feed.succeed(`Created seed file: "${fileName}"`);
 }
@@ -0,0 +1,390 @@
+import type { DefaultStores } from "../config.js";
+import { toBatches } from "./utils.js";
+
+type Row = Record<string, unknown>;
+
+const FIRST_NAMES = [
+  "Ada",
+  "Alan",
+  "Barbara",
+  "Donald",
+  "Dennis",
+  "Edsger",
+  "Frances",
+  "Grace",
+  "Hedy",
+  "John",
+  "Ken",
+  "Linus",
+  "Margaret",
+  "Niklaus",
+  "Radia",
+  "Tim",
+] as const;
+const LAST_NAMES = [
+  "Allen",
+  "Babbage",
+  "Cerf",
+  "Dijkstra",
+  "Hamilton",
+  "Hopper",
+  "Kay",
+  "Knuth",
+  "Lamarr",
+  "Liskov",
+  "Lovelace",
+  "Perlman",
+  "Ritchie",
+  "Thompson",
+  "Turing",
+  "Wirth",
+] as const;
+const WORDS = [
+  "alpha",
+  "bravo",
+  "charlie",
+  "delta",
+  "echo",
+  "foxtrot",
+  "golf",
+  "hotel",
+  "india",
+  "juliet",
+  "kilo",
+  "lima",
+  "mike",
+  "november",
+  "oscar",
+  "papa",
+  "quebec",
+  "romeo",
+  "sierra",
+  "tango",
+] as const;
+const ALPHANUMERIC = "abcdefghijklmnopqrstuvwxyz0123456789";
+
+/**
+ * Generates fake values from a seeded pseudo-random number generator, so the same seed always
+ * produces the same values on every machine.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * const f = new Faker(42);
+ * f.username(); // the same username every time
+ * ```
+ */
+export class Faker {
+  #state = 0;
+
+  constructor(seed: number | string) {
+    this.reset(seed);
+  }
+
+  /**
+   * Restarts the sequence of values from a seed.
+   */
+  reset(seed: number | string) {
+    this.#state = typeof seed === "number" ? seed >>> 0 : hash(seed);
+  }
+
+  /**
+   * Returns a float in [0, 1), this is the mulberry32 generator.
+   */
+  random(): number {
+    let t = (this.#state = (this.#state + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns an integer between `min` and `max`, inclusive.
+   */
+  int(min = 0, max = 2_147_483_647): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  /**
+   * Returns a float between `min` (inclusive) and `max` (exclusive).
+   */
+  float(min = 0, max = 1): number {
+    return min + this.random() * (max - min);
+  }
+
+  /**
+   * Returns `true` with the given probability.
+   */
+  bool(probability = 0.5): boolean {
+    return this.random() < probability;
+  }
+
+  /**
+   * Returns one of the items.
+   */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)]!;
+  }
+
+  /**
+   * Returns a string of random characters from the alphabet.
+   */
+  string(length = 10, alphabet = ALPHANUMERIC): string {
+    return Array.from({ length }, () => alphabet[this.int(0, alphabet.length - 1)]).join("");
+  }
+
+  /**
+   * Returns a version 4 UUID.
+   */
+  uuid(): string {
+    const hex = Array.from({ length: 32 }, () => this.int(0, 15).toString(16));
+    hex[12] = "4";
+    hex[16] = ((this.int(0, 15) & 0x3) | 0x8).toString(16);
+    const str = hex.join("");
+    return `${str.slice(0, 8)}-${str.slice(8, 12)}-${str.slice(12, 16)}-${str.slice(16, 20)}-${str.slice(20)}`;
+  }
+
+  firstName(): string {
+    return this.pick(FIRST_NAMES);
+  }
+
+  lastName(): string {
+    return this.pick(LAST_NAMES);
+  }
+
+  fullName(): string {
+    return `${this.firstName()} ${this.lastName()}`;
+  }
+
+  /**
+   * Returns a lowercase username such as `grace_hopper42`.
+   */
+  username(): string {
+    return `${this.firstName()}_${this.lastName()}${this.int(1, 999)}`.toLowerCase();
+  }
+
+  email(): string {
+    return `${this.username()}@example.com`;
+  }
+
+  word(): string {
+    return this.pick(WORDS);
+  }
+
+  sentence(words = 6): string {
+    const sentence = Array.from({ length: words }, () => this.word()).join(" ");
+    return `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.`;
+  }
+
+  /**
+   * Returns a date between `from` and `to`, which default to the year 2020 so the value does not
+   * depend on when the seed is run.
+   */
+  date(from = new Date("2020-01-01T00:00:00Z"), to = new Date("2021-01-01T00:00:00Z")): Date {
+    return new Date(this.int(from.getTime(), to.getTime()));
+  }
+}
+
+export interface IFactoryOptions {
+  /**
+   * The seed of the generator, combined with the table name. The default is `0`.
+   */
+  seed?: number;
+}
+
+interface IRelation<T extends Row> {
+  factory: Factory<any>;
+  count: number;
+  attrs: (row: T) => Row;
+}
+
+/**
+ * Builds and inserts fake rows for a table. Create factories with `defineFactory`.
+ *
+ * The values depend only on the seed and the number of rows built before, so seeds which create
+ * the same rows in the same order produce the same data on every machine.
+ */
+export class Factory<T extends Row> {
+  readonly #table: string;
+  readonly #define: (f: Faker, index: number) => T;
+  readonly #seed: number;
+  readonly #relations: IRelation<T>[] = [];
+  readonly #faker: Faker;
+  #index = 0;
+
+  constructor(table: string, define: (f: Faker, index: number) => T, opts: IFactoryOptions = {}) {
+    this.#table = table;
+    this.#define = define;
+    this.#seed = opts.seed ?? 0;
+    this.#faker = new Faker(`${table}:${this.#seed}`);
+  }
+
+  /**
+   * The table the rows are inserted into.
+   */
+  get table(): string {
+    return this.#table;
+  }
+
+  /**
+   * Restarts the generated values and the row index, as if no rows had been built.
+   */
+  reset(): this {
+    this.#faker.reset(`${this.#table}:${this.#seed}`);
+    this.#index = 0;
+    return this;
+  }
+
+  /**
+   * Creates `count` rows of another factory for each row this factory creates.
+   *
+   * ### Examples
+   *
+   * ```ts
+   * const roles = defineFactory("user_roles", (f) => ({ role: f.pick(["admin", "member"]) }));
+   * const users = defineFactory("users", (f, i) => ({ id: i + 1, username: f.username() })).hasMany(
+   *   roles,
+   *   2,
+   *   (user) => ({ user_id: user.id }),
+   * );
+   * ```
+   *
+   * @param factory The factory of the related rows.
+   * @param count The number of related rows for each row.
+   * @param attrs Returns the values of the related rows that reference the created row. When the
+   *   dialect doesn't support `returning`, such as MySQL, values set by the database are not known
+   *   and must be set by this factory instead.
+   */
+  hasMany<C extends Row>(factory: Factory<C>, count: number, attrs: (row: T) => Partial<C> & Row): this {
+    this.#relations.push({ factory, count, attrs });
+    return this;
+  }
+
+  /**
+   * Builds a row without inserting it.
+   *
+   * @param overrides Values which replace the generated values.
+   */
+  build(overrides: Partial<T> = {}): T {
+    return { ...this.#define(this.#faker, this.#index++), ...overrides };
+  }
+
+  /**
+   * Builds rows without inserting them.
+   *
+   * @param count The number of rows to build.
+   * @param overrides Values which replace the generated values, or a function of the row index.
+   */
+  buildMany(count: number, overrides: Partial<T> | ((index: number) => Partial<T>) = {}): T[] {
+    return Array.from({ length: count }, (_, i) =>
+      this.build(typeof overrides === "function" ? overrides(i) : overrides),
+    );
+  }
+
+  /**
+   * Inserts a row, and the rows of its relations.
+   *
+   * @param stores The stores passed to the seed.
+   * @param overrides Values which replace the generated values.
+   */
+  async create(stores: DefaultStores, overrides: Partial<T> = {}): Promise<T> {
+    const [row] = await this.createMany(stores, 1, overrides);
+    return row!;
+  }
+
+  /**
+   * Inserts rows in batches through `stores.db`, and then the rows of their relations. The
+   * inserted rows are returned, including the values set by the database when the dialect
+   * supports `returning`.
+   *
+   * @throws {Error} If the dialect doesn't support `returning` and a relation references a value
+   *   set by the database, which would insert the related rows without it.
+   * @param stores The stores passed to the seed.
+   * @param count The number of rows to insert.
+   * @param overrides Values which replace the generated values, or a function of the row index.
+   */
+  async createMany(
+    stores: DefaultStores,
+    count: number,
+    overrides: Partial<T> | ((index: number) => Partial<T>) = {},
+  ): Promise<T[]> {
+    return this.#insert(stores, this.buildMany(count, overrides));
+  }
+
+  /**
+   * Inserts built rows in batches, and then the rows of their relations for all of them at once.
+   */
+  async #insert(stores: DefaultStores, built: T[]): Promise<T[]> {
+    const { db } = stores;
+    const returning = db.getExecutor().adapter.supportsReturning;
+
+    // without `returning` the relations only see the built rows, so check them before inserting
+    for (const { factory, attrs } of returning ? [] : this.#relations) {
+      if (built.some((row) => Object.values(attrs(row)).some((value) => value === undefined))) {
+        throw new Error(
+          `The rows of "${factory.table}" reference values of "${this.#table}" set by the database, which ` +
+            `the dialect can't return. Set these values in the factory of "${this.#table}" instead.`,
+        );
+      }
+    }
+
+    const created: T[] = [];
+    for (const batch of toBatches(built)) {
+      const query = db.insertInto(this.#table).values(batch);
+      if (!returning) {
+        await query.execute();
+        created.push(...batch);
+        continue;
+      }
+
+      // a dry run returns no rows, so fall back to the built rows
+      const rows = (await query.returningAll().execute()) as T[];
+      created.push(...(rows.length === batch.length ? rows : batch));
+    }
+
+    for (const { factory, count, attrs } of this.#relations) {
+      await factory.#insert(
+        stores,
+        created.flatMap((row) => factory.buildMany(count, attrs(row))),
+      );
+    }
+
+    return created;
+  }
+}
+
+/**
+ * Defines a factory of fake rows for a table.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { defineFactory } from "kyselyx";
+ *
+ * const users = defineFactory("users", (f) => ({ username: f.username(), github_id: f.int() }));
+ *
+ * export async function up(stores) {
+ *   await users.createMany(stores, 100);
+ * }
+ * ```
+ *
+ * @param table The table the rows are inserted into.
+ * @param define Returns the values of a row from the faker and the index of the row.
+ * @param opts Options for the factory.
+ */
+export function defineFactory<T extends Row>(
+  table: string,
+  define: (f: Faker, index: number) => T,
+  opts?: IFactoryOptions,
+): Factory<T> {
+  return new Factory(table, define, opts);
+}
+
+/**
+ * Returns the 32-bit FNV-1a hash of a string.
+ */
+function hash(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) h = Math.imul(h ^ str.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+}
@@ -1,9 +1,11 @@
 import path from "path";
 import { z } from "zod";
+import { createFixtureSeed, FIXTURE_FILE_REGEX, parseFixture } from "./fixtures.js";
 import type { Seed, SeedProvider } from "./seed.js";
 
 /**
- * Reads all seeds from a folder in node.js.
+ * Reads all seeds from a folder in node.js. JSON, YAML and CSV data files are also read as seeds,
+ * see `createFixtureSeed`.
  *
  * ### Examples
  *
@@ -27,9 +29,8 @@ export class FileSeedProvider implements SeedProvider {
 
   async getSeeds(): Promise<Record<string, Seed>> {
     const seeds: Record<string, Seed> = {};
-    const files = await this.#props.fs
-      .readdir(this.#props.seedFolder)
-      .then((files) => files.filter((file) => /(.ts|.mts|.js|.mjs)$/.test(file)));
+    const allFiles = await this.#props.fs.readdir(this.#props.seedFolder);
+    const files = allFiles.filter((file) => /(.ts|.mts|.js|.mjs)$/.test(file));
 
     for await (const seedFile of files) {
       const file = path.join(this.#props.seedFolder, seedFile);
@@ -44,6 +45,15 @@ export class FileSeedProvider implements SeedProvider {
       }
     }
 
+    // data files are seeds which insert (and delete) their rows
+    for (const dataFile of allFiles) {
+      const seedKey = FIXTURE_FILE_REGEX.exec(dataFile)?.groups?.name;
+      if (!seedKey) continue;
+
+      const contents = await this.#props.fs.readFile(this.#props.path.join(this.#props.seedFolder, dataFile), "utf-8");
+      seeds[seedKey] = createFixtureSeed(parseFixture(dataFile, contents));
+    }
+
     return seeds;
   }
 }
@@ -54,6 +64,7 @@ function isSeed(obj: unknown): obj is Seed {
 
 export interface FileSeedProviderFS {
   readdir(path: string): Promise<string[]>;
+  readFile(path: string, encoding: "utf-8"): Promise<string>;
 }
 
 export interface FileSeedProviderPath {
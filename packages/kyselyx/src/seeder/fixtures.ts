@@ -0,0 +1,191 @@
+import { type Kysely, MysqlAdapter, PostgresAdapter, sql, SqliteAdapter } from "kysely";
+import { parseDocument } from "yaml";
+import type { DefaultStores } from "../config.js";
+import type { Seed } from "./seed.js";
+import { toBatches } from "./utils.js";
+
+/**
+ * Matches a fixture seed file.
+ */
+export const FIXTURE_FILE_REGEX = /^(?<name>(?<timestamp>\d+)_(?<label>.+))\.(?<ext>json|ya?ml|csv)$/;
+
+type Row = Record<string, unknown>;
+
+/**
+ * Parses a fixture file into rows keyed by table name. JSON and YAML files map table names to
+ * lists of rows, a CSV file holds the rows of the table named by the file's label.
+ *
+ * ### Examples
+ *
+ * ```yaml
+ * # 1734_users.yaml
+ * users:
+ *   - id: 1
+ *     name: Alice
+ * ```
+ *
+ * @param file The name of the fixture file.
+ * @param contents The contents of the fixture file.
+ */
+export function parseFixture(file: string, contents: string): Record<string, Row[]> {
+  const { label, ext } = FIXTURE_FILE_REGEX.exec(file)?.groups ?? {};
+  if (ext === "csv") return { [label!]: parseCsv(contents) };
+
+  const tables = ext === "json" ? JSON.parse(contents) : parseYaml(file, contents);
+  const isRows = (rows: unknown) => Array.isArray(rows) && rows.every((row) => isObject(row));
+  if (!isObject(tables) || !Object.values(tables).every(isRows))
+    throw new Error(`Fixture "${file}" must map table names to lists of rows.`);
+
+  return tables as Record<string, Row[]>;
+}
+
+/**
+ * Returns a seed which inserts the fixture rows in batches, and deletes exactly those rows by
+ * primary key when reverted. Rows without their primary key are matched on every fixture column.
+ * Values are coerced to the type of their column, so a CSV `"1"` is inserted as an integer.
+ *
+ * @param tables The fixture rows keyed by table name.
+ */
+export function createFixtureSeed(tables: Record<string, Row[]>): Seed {
+  return {
+    async up({ db }: DefaultStores) {
+      for (const [table, rows] of Object.entries(tables)) {
+        const values = await coerceRows(db, table, rows);
+        for (const batch of toBatches(values)) await db.insertInto(table).values(batch).execute();
+      }
+    },
+    async down({ db }: DefaultStores) {
+      for (const [table, rows] of Object.entries(tables).reverse()) {
+        const values = await coerceRows(db, table, rows);
+        const primaryKey = await getPrimaryKey(db, table);
+        for (const batch of toBatches(values)) {
+          await db
+            .deleteFrom(table)
+            .where((eb) =>
+              eb.or(
+                batch.map((row) => {
+                  const hasKey = primaryKey.length > 0 && primaryKey.every((col) => col in row);
+                  const columns = hasKey ? primaryKey : Object.keys(row);
+                  return eb.and(
+                    columns.map((col) => (row[col] === null ? eb(col, "is", null) : eb(col, "=", row[col]))),
+                  );
+                }),
+              ),
+            )
+            .execute();
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Coerces the values of each row to the introspected type of its column. Columns that cannot be
+ * found are left as they are.
+ */
+async function coerceRows(db: Kysely<any>, table: string, rows: Row[]): Promise<Row[]> {
+  const [schema, name] = table.includes(".") ? table.split(".", 2) : [undefined, table];
+  const tables = await db.introspection.getTables();
+  const found = tables.find((t) => t.name === name && (!schema || t.schema === schema));
+  const types = Object.fromEntries((found?.columns ?? []).map((c) => [c.name, c.dataType.toLowerCase()]));
+  const sqlite = db.getExecutor().adapter instanceof SqliteAdapter;
+
+  return rows.map((row) =>
+    Object.fromEntries(Object.entries(row).map(([col, value]) => [col, coerce(value, types[col], sqlite)])),
+  );
+}
+
+function coerce(value: unknown, type: string | undefined, sqlite: boolean): unknown {
+  if (value === undefined || value === null || type === undefined) return value ?? null;
+
+  if (/bool/.test(type)) {
+    const bool = typeof value === "string" ? /^(true|t|1|yes|y)$/i.test(value) : Boolean(value);
+    return sqlite ? Number(bool) : bool;
+  } else if (/int|serial/.test(type) && typeof value === "string" && /^[-+]?\d+$/.test(value)) {
+    const int = Number(value);
+    return Number.isSafeInteger(int) ? int : value;
+  } else if (/real|float|double/.test(type) && typeof value === "string" && value.trim() !== "") {
+    return Number(value);
+  } else if (isObject(value) || Array.isArray(value)) {
+    return JSON.stringify(value);
+  } else if (/char|text|clob|uuid|date|time/.test(type) && typeof value !== "string") {
+    return String(value);
+  }
+
+  return value;
+}
+
+/**
+ * Returns the primary key columns of a table, or an empty list for unknown dialects.
+ */
+async function getPrimaryKey(db: Kysely<any>, table: string): Promise<string[]> {
+  const { adapter } = db.getExecutor();
+  let query;
+  if (adapter instanceof SqliteAdapter) {
+    query = sql<{ name: string }>`select name from pragma_table_info(${table}) where pk > 0 order by pk`;
+  } else if (adapter instanceof PostgresAdapter) {
+    query = sql<{ name: string }>`
+      select a.attname as name from pg_index i
+      join pg_attribute a on a.attrelid = i.indrelid and a.attnum = any(i.indkey)
+      where i.indrelid = ${table}::regclass and i.indisprimary`;
+  } else if (adapter instanceof MysqlAdapter) {
+    query = sql<{ name: string }>`
+      select column_name as name from information_schema.key_column_usage
+      where table_schema = database() and table_name = ${table} and constraint_name = 'PRIMARY'
+      order by ordinal_position`;
+  } else return [];
+
+  return (await query.execute(db)).rows.map((row) => row.name);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses CSV with a header row into rows. Quoted fields may contain commas, newlines and doubled
+ * quotes. Empty fields are parsed as `null`.
+ */
+function parseCsv(contents: string): Row[] {
+  const records: string[][] = [[]];
+  let field = "";
+  let quoted = false;
+  const endField = () => {
+    records.at(-1)!.push(field);
+    field = "";
+  };
+
+  for (let i = 0; i < contents.length; i++) {
+    const char = contents[i]!;
+    if (quoted) {
+      if (char === '"' && contents[i + 1] === '"') field += contents[++i];
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ",") endField();
+    else if (char === "\n" || char === "\r") {
+      if (char === "\r" && contents[i + 1] === "\n") i++;
+      endField();
+      records.push([]);
+    } else field += char;
+  }
+  endField();
+
+  const [header = [], ...rows] = records.filter((it) => it.some((f) => f !== ""));
+  return rows.map((row) => Object.fromEntries(header.map((col, idx) => [col, row[idx] ? row[idx] : null])));
+}
+
+/**
+ * Parses a YAML document, resolving anchors, aliases and `<<` merge keys.
+ *
+ * @throws If the document is invalid, naming the file and the line of the first error.
+ */
+function parseYaml(file: string, contents: string): unknown {
+  const doc = parseDocument(contents, { merge: true, prettyErrors: false });
+  const [error] = doc.errors;
+  if (error) {
+    const line = contents.slice(0, error.pos[0]).split("\n").length;
+    throw new Error(`Fixture "${file}" is not valid YAML at line ${line}: ${error.message}`);
+  }
+  return doc.toJS();
+}
@@ -1,16 +1,48 @@
+import { randomBytes } from "crypto";
 import { CreateSchemaBuilder, CreateTableBuilder, Kysely, type KyselyPlugin, WithSchemaPlugin } from "kysely";
+import { hostname } from "os";
 import type { DefaultStores } from "../config.js";
 import { FileSeedProvider } from "./file-seed-provider.js";
 import { NoopPlugin } from "./noop-plugin.js";
 import { freeze, getLast } from "./utils.js";
 
 export const DEFAULT_SEED_TABLE = "kyselyx_seeds";
+export const DEFAULT_SEED_LOCK_TABLE = "kyselyx_seeds_lock";
+export const DEFAULT_SEED_LOCK_TIMEOUT = 60_000;
 export const DEFAULT_ALLOW_UNORDERED_SEEDS = false;
 export const NO_SEEDS: NoSeeds = freeze({ __noSeeds__: true });
+const SEED_LOCK_ID = "seed_lock";
+const SEED_LOCK_POLL_INTERVAL = 250;
+const SEED_LOCK_EXPIRY = 30_000;
 
 export interface Seed<T extends DefaultStores = DefaultStores> {
   up(stores: T): Promise<void>;
   down(stores: T): Promise<void>;
+
+  /**
+   * The seeds which must run before this seed, by name or by label (the name without its
+   * timestamp). The seeds are reverted in the reverse order.
+   *
+   * ### Examples
+   *
+   * ```ts
+   * export const dependsOn = ["roles"];
+   * ```
+   */
+  dependsOn?: ReadonlyArray<string>;
+
+  /**
+   * The environments this seed runs in. In other environments, or when no environment is
+   * selected, the seed is skipped and not recorded as executed. Seeds without environments run in
+   * every environment.
+   *
+   * ### Examples
+   *
+   * ```ts
+   * export const environments = ["development", "test"];
+   * ```
+   */
+  environments?: ReadonlyArray<string>;
 }
 
 /**
@@ -48,7 +80,7 @@ export class Seeder {
   /**
    * Returns a {@link SeedInfo} object for each seed.
    *
-   * The returned array is sorted by seed name.
+   * The returned array is sorted in the order the seeds are run, see {@link Seed.dependsOn}.
    */
   async getSeeds(): Promise<ReadonlyArray<SeedInfo>> {
     const executedSeeds = (await this.#doesTableExists(this.#seedTable))
@@ -68,6 +100,7 @@ export class Seeder {
         name,
         seed,
         executedAt: executed ? new Date(executed.timestamp) : undefined,
+        skipped: !executed && !this.#runsInEnvironment(seed),
       };
     });
   }
@@ -81,7 +114,7 @@ export class Seeder {
    * were executed and which failed. See the examples below.
    *
    * This method goes through all possible seeds provided by the provider and runs the
-   * ones whose names come alphabetically after the last seed that has been run. If the
+   * ones which come after the last seed that has been run. If the
    * list of executed seeds doesn't match the beginning of the list of possible seeds
    * an error is returned.
    *
@@ -216,7 +249,20 @@ export class Seeder {
   ): Promise<SeedResultSet> {
     try {
       await this.#ensureSeedTablesExists();
-      return await this.#runSeeds(getSeedDirectionAndStep);
+
+      // The suffix tells apart the seeders of one process.
+      const holder = `${hostname()} (pid ${process.pid}, ${randomBytes(3).toString("hex")})`;
+      await this.#acquireLock(holder);
+
+      // The lock expires unless it is renewed, so a process that crashes or is killed while running
+      // seeds doesn't hold it forever.
+      const renewal = setInterval(() => this.#renewLock(holder).catch(() => {}), SEED_LOCK_EXPIRY / 3);
+      try {
+        return await this.#runSeeds(getSeedDirectionAndStep);
+      } finally {
+        clearInterval(renewal);
+        await this.#releaseLock(holder);
+      }
     } catch (error) {
       if (error instanceof SeedResultSetError) {
         return error.resultSet;
@@ -234,10 +280,26 @@ export class Seeder {
     return this.#props.seedTableName ?? DEFAULT_SEED_TABLE;
   }
 
+  get #seedLockTable(): string {
+    return this.#props.seedLockTableName ?? DEFAULT_SEED_LOCK_TABLE;
+  }
+
+  get #seedLockTimeout(): number {
+    return this.#props.seedLockTimeout ?? DEFAULT_SEED_LOCK_TIMEOUT;
+  }
+
   get #allowUnorderedSeeds(): boolean {
     return this.#props.allowUnorderedSeeds ?? DEFAULT_ALLOW_UNORDERED_SEEDS;
   }
 
+  /**
+   * Returns true if the seed runs in the current environment, see {@link Seed.environments}.
+   */
+  #runsInEnvironment(seed: Seed): boolean {
+    const { environment } = this.#props;
+    return !seed.environments || (environment !== undefined && seed.environments.includes(environment));
+  }
+
   get #schemaPlugin(): KyselyPlugin {
     if (this.#seedTableSchema) {
       return new WithSchemaPlugin(this.#seedTableSchema);
@@ -249,6 +311,8 @@ export class Seeder {
   async #ensureSeedTablesExists(): Promise<void> {
     await this.#ensureSeedTableSchemaExists();
     await this.#ensureSeedTableExists();
+    await this.#ensureLockTableExists();
+    await this.#ensureLockRowExists();
   }
 
   async #ensureSeedTableSchemaExists(): Promise<void> {
@@ -298,6 +362,119 @@ export class Seeder {
     }
   }
 
+  async #ensureLockTableExists(): Promise<void> {
+    if (!(await this.#doesTableExists(this.#seedLockTable))) {
+      try {
+        await this.#createIfNotExists(
+          this.#props.stores.db.schema
+            .withPlugin(this.#schemaPlugin)
+            .createTable(this.#seedLockTable)
+            .addColumn("id", "varchar(255)", (col) => col.notNull().primaryKey())
+            .addColumn("is_locked", "integer", (col) => col.notNull().defaultTo(0))
+            // The process holding the lock and when it was acquired, used to name the holder when
+            // another run times out waiting for it.
+            .addColumn("locked_by", "varchar(255)")
+            .addColumn("locked_at", "varchar(255)")
+            // When the lock is taken over unless the holder renews it.
+            .addColumn("expires_at", "varchar(255)"),
+        );
+      } catch (error) {
+        if (!(await this.#doesTableExists(this.#seedLockTable))) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async #ensureLockRowExists(): Promise<void> {
+    if (!(await this.#doesLockRowExists())) {
+      try {
+        await this.#props.stores.db
+          .withPlugin(this.#schemaPlugin)
+          .insertInto(this.#seedLockTable)
+          .values({ id: SEED_LOCK_ID, is_locked: 0 })
+          .execute();
+      } catch (error) {
+        if (!(await this.#doesLockRowExists())) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async #doesLockRowExists(): Promise<boolean> {
+    const lockRow = await this.#props.stores.db
+      .withPlugin(this.#schemaPlugin)
+      .selectFrom(this.#seedLockTable)
+      .where("id", "=", SEED_LOCK_ID)
+      .select("id")
+      .executeTakeFirst();
+
+    return !!lockRow;
+  }
+
+  async #acquireLock(holder: string): Promise<void> {
+    const db = this.#props.stores.db.withPlugin(this.#schemaPlugin);
+    const startedAt = Date.now();
+
+    while (true) {
+      const now = new Date();
+      const { numUpdatedRows } = await db
+        .updateTable(this.#seedLockTable)
+        .set({
+          is_locked: 1,
+          locked_by: holder,
+          locked_at: now.toISOString(),
+          expires_at: new Date(now.getTime() + SEED_LOCK_EXPIRY).toISOString(),
+        })
+        .where("id", "=", SEED_LOCK_ID)
+        .where((eb) => eb.or([eb("is_locked", "=", 0), eb("expires_at", "<", now.toISOString())]))
+        .executeTakeFirst();
+
+      if (numUpdatedRows > 0n) {
+        return;
+      }
+
+      if (Date.now() - startedAt >= this.#seedLockTimeout) {
+        const lock = await db
+          .selectFrom(this.#seedLockTable)
+          .where("id", "=", SEED_LOCK_ID)
+          .select(["locked_by", "locked_at"])
+          .executeTakeFirst();
+
+        throw new Error(
+          `could not acquire the seed lock within ${this.#seedLockTimeout}ms, it is held by ${lock?.locked_by ?? "an unknown process"} since ${lock?.locked_at ?? "an unknown time"}. The lock expires ${SEED_LOCK_EXPIRY / 1000}s after its holder stops running.`,
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, SEED_LOCK_POLL_INTERVAL));
+    }
+  }
+
+  /**
+   * Extends the expiry of the lock. On dialects with a single connection, such as SQLite, this waits
+   * for the running seeds to finish.
+   */
+  async #renewLock(holder: string): Promise<void> {
+    await this.#props.stores.db
+      .withPlugin(this.#schemaPlugin)
+      .updateTable(this.#seedLockTable)
+      .set({ expires_at: new Date(Date.now() + SEED_LOCK_EXPIRY).toISOString() })
+      .where("id", "=", SEED_LOCK_ID)
+      .where("locked_by", "=", holder)
+      .execute();
+  }
+
+  async #releaseLock(holder: string): Promise<void> {
+    await this.#props.stores.db
+      .withPlugin(this.#schemaPlugin)
+      .updateTable(this.#seedLockTable)
+      .set({ is_locked: 0, locked_by: null, locked_at: null, expires_at: null })
+      .where("id", "=", SEED_LOCK_ID)
+      .where("locked_by", "=", holder)
+      .execute();
+  }
+
   async #doesSchemaExists(): Promise<boolean> {
     const schemas = await this.#props.stores.db.introspection.getSchemas();
 
@@ -320,8 +497,6 @@ export class Seeder {
       step: number;
     },
   ): Promise<SeedResultSet> {
-    const adapter = this.#props.stores.db.getExecutor().adapter;
-
     const run = async (db: Kysely<any>): Promise<SeedResultSet> => {
       const state = await this.#getState(db);
 
@@ -344,16 +519,25 @@ export class Seeder {
       return { results: [] };
     };
 
-    if (adapter.supportsTransactionalDdl) {
-      return this.#props.stores.db.transaction().execute(run);
-    } else {
-      return this.#props.stores.db.connection().execute(run);
-    }
+    // Unlike migrations, seeds modify data rather than the schema so the run is always wrapped in a
+    // transaction, even on dialects without transactional DDL.
+    return this.#props.stores.db.transaction().execute(run);
+  }
+
+  /**
+   * Returns the stores with `db` replaced by the transaction (or connection) the seeds are run in,
+   * so that a failing seed also rolls back the data written by the seeds before it.
+   */
+  #getStores(db: Kysely<any>): DefaultStores {
+    return { ...this.#props.stores, db };
   }
 
   async #getState(db: Kysely<any>): Promise<SeedState> {
-    const seeds = await this.#resolveSeeds();
-    const executedSeeds = await this.#getExecutedSeeds(db);
+    const allSeeds = await this.#resolveSeeds();
+    const executedSeeds = await this.#getExecutedSeeds(db, allSeeds);
+
+    // Seeds of other environments are skipped, unless they were executed and can still be reverted.
+    const seeds = allSeeds.filter((seed) => this.#runsInEnvironment(seed) || executedSeeds.includes(seed.name));
 
     this.#ensureNoMissingSeeds(seeds, executedSeeds);
     if (!this.#allowUnorderedSeeds) {
@@ -378,24 +562,30 @@ export class Seeder {
 
   async #resolveSeeds(): Promise<ReadonlyArray<NamedSeed>> {
     const allSeeds = await this.#props.provider.getSeeds();
+    const names = Object.keys(allSeeds).sort();
+    const groups = (await this.#props.getSeedGroups?.(names)) ?? {};
 
-    return Object.keys(allSeeds)
-      .sort()
-      .map((name) => ({
+    return sortByDependencies(
+      names.map((name) => ({
         ...allSeeds[name]!,
         name,
-      }));
+      })),
+      groups,
+    );
   }
 
-  async #getExecutedSeeds(db: Kysely<any>): Promise<ReadonlyArray<string>> {
+  async #getExecutedSeeds(db: Kysely<any>, seeds: ReadonlyArray<NamedSeed>): Promise<ReadonlyArray<string>> {
     const executedSeeds = await db
       .withPlugin(this.#schemaPlugin)
       .selectFrom(this.#seedTable)
-      .select("name")
-      .orderBy(["timestamp", "name"])
+      .select(["name", "timestamp"])
       .execute();
 
-    return executedSeeds.map((it) => it.name);
+    // Seeds run within the same millisecond share a timestamp, ties are broken by the run order.
+    const position = (name: string) => seeds.findIndex((it) => it.name === name);
+    return executedSeeds
+      .sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)) || position(a.name) - position(b.name))
+      .map((it) => it.name);
   }
 
   #ensureNoMissingSeeds(seeds: ReadonlyArray<NamedSeed>, executedSeeds: ReadonlyArray<string>) {
@@ -412,7 +602,7 @@ export class Seeder {
     for (let i = 0; i < executedSeeds.length; ++i) {
       if (seeds[i]!.name !== executedSeeds[i]) {
         throw new Error(
-          `corrupted seeds: expected previously executed seed ${executedSeeds[i]} to be at index ${i} but ${seeds[i]!.name} was found in its place. New seeds must always have a name that comes alphabetically after the last executed seed.`,
+          `corrupted seeds: expected previously executed seed ${executedSeeds[i]} to be at index ${i} but ${seeds[i]!.name} was found in its place. New seeds must always have a name that comes alphabetically after the last executed seed, and must not be depended on by executed seeds.`,
         );
       }
     }
@@ -440,7 +630,7 @@ export class Seeder {
 
       try {
         if (seed.down) {
-          await seed.down(this.#props.stores);
+          await seed.down(this.#getStores(db));
           await db.withPlugin(this.#schemaPlugin).deleteFrom(this.#seedTable).where("name", "=", seed.name).execute();
 
           results[i] = {
@@ -481,7 +671,7 @@ export class Seeder {
       const seed = state.pendingSeeds[i]!;
 
       try {
-        await seed.up(this.#props.stores);
+        await seed.up(this.#getStores(db));
         await db
           .withPlugin(this.#schemaPlugin)
           .insertInto(this.#seedTable)
@@ -541,6 +731,20 @@ export interface SeederProps<T extends DefaultStores = DefaultStores> {
    */
   readonly seedTableName?: string;
 
+  /**
+   * The name of the internal seed lock table. Defaults to `kyselyx_seeds_lock`.
+   *
+   * The lock is held while seeds are run so that concurrent runs, for example two
+   * deployments running `db:setup` at once, don't apply the same seeds twice.
+   */
+  readonly seedLockTableName?: string;
+
+  /**
+   * The number of milliseconds to wait for another run to release the seed lock
+   * before giving up. Defaults to 60 seconds.
+   */
+  readonly seedLockTimeout?: number;
+
   /**
    * The schema of the internal seed tables. Defaults to the default schema
    * on dialects that support schemas.
@@ -573,6 +777,22 @@ export interface SeederProps<T extends DefaultStores = DefaultStores> {
    * order.
    */
   readonly allowUnorderedSeeds?: boolean;
+
+  /**
+   * Returns the group of each seed, keyed by seed name. Groups are run in ascending order and
+   * {@link Seed.dependsOn} only reorders seeds within their group, a seed depending on a seed of a
+   * later group is an error. Defaults to a single group.
+   *
+   * Kyselyx groups seeds by the migration they are bound to, so a dependency never moves a seed
+   * before the migration it needs.
+   */
+  readonly getSeedGroups?: (names: ReadonlyArray<string>) => Promise<Record<string, number>>;
+
+  /**
+   * The current environment. Seeds whose {@link Seed.environments} don't include it are skipped.
+   * When not set, all seeds which declare environments are skipped.
+   */
+  readonly environment?: string;
 }
 
 /**
@@ -625,8 +845,8 @@ export interface SeedResult {
    *
    *  - `Success` means the seed was successfully executed. Note that
    *    if any of the later seeds in the {@link SeedResult.results}
-   *    list failed (have status `Error`) AND the dialect supports transactional
-   *    DDL, even the successfull seeds were rolled back.
+   *    list failed (have status `Error`), even the successfull seeds were
+   *    rolled back.
    *
    *  - `Error` means the seed failed. In this case the
    *    {@link SeedResult.error} contains the error.
@@ -650,8 +870,8 @@ export interface SeedProvider {
    *
    * The keys of the returned object are seed names and values are the
    * seeds. The order of the seeds is determined by the alphabetical
-   * order of the seed names. The items in the object don't need to be
-   * sorted, they are sorted by Kysely.
+   * order of the seed names and their {@link Seed.dependsOn}. The items
+   * in the object don't need to be sorted, they are sorted by Kysely.
    */
   getSeeds(): Promise<Record<string, Seed>>;
 }
@@ -680,6 +900,11 @@ export interface SeedInfo {
    * If this is undefined, the seed hasn't been executed yet.
    */
   executedAt?: Date;
+
+  /**
+   * True if the seed doesn't run in the current environment, see {@link Seed.environments}.
+   */
+  skipped: boolean;
 }
 
 interface NamedSeed extends Seed {
@@ -687,7 +912,7 @@ interface NamedSeed extends Seed {
 }
 
 interface SeedState {
-  // All seeds sorted by name.
+  // All seeds of the current environment sorted in the order they are run.
   readonly seeds: ReadonlyArray<NamedSeed>;
 
   // Names of executed seeds sorted by execution timestamp
@@ -712,3 +937,47 @@ class SeedResultSetError extends Error {
     return this.#resultSet;
   }
 }
+
+/**
+ * Orders the seeds so that each seed runs after the seeds it depends on. Seeds are otherwise run in
+ * the order of their group and then their name.
+ *
+ * @param seeds The seeds sorted by name.
+ * @param groups The group of each seed, see {@link SeederProps.getSeedGroups}.
+ */
+function sortByDependencies(seeds: NamedSeed[], groups: Record<string, number>): NamedSeed[] {
+  const group = (seed: NamedSeed) => groups[seed.name] ?? 0;
+  const findDependency = (seed: NamedSeed, dependency: string) => {
+    const exact = seeds.find((it) => it.name === dependency);
+    const matches = exact ? [exact] : seeds.filter((it) => it.name.replace(/^\d+_/, "") === dependency);
+    if (matches.length === 0) {
+      throw new Error(`seed "${seed.name}" depends on "${dependency}" which doesn't exist`);
+    } else if (matches.length > 1) {
+      throw new Error(
+        `seed "${seed.name}" depends on "${dependency}" which matches more than one seed: ${matches.map((it) => it.name).join(", ")}`,
+      );
+    } else if (group(matches[0]!) > group(seed)) {
+      throw new Error(`seed "${seed.name}" can't depend on "${matches[0]!.name}" which is bound to a later migration`);
+    }
+
+    return matches[0]!;
+  };
+
+  const sorted: NamedSeed[] = [];
+  const visiting: NamedSeed[] = [];
+  const visit = (seed: NamedSeed) => {
+    if (sorted.includes(seed)) return;
+    if (visiting.includes(seed)) {
+      const cycle = [...visiting.slice(visiting.indexOf(seed)), seed].map((it) => it.name);
+      throw new Error(`seeds have a circular dependency: ${cycle.join(" -> ")}`);
+    }
+
+    visiting.push(seed);
+    for (const dependency of seed.dependsOn ?? []) visit(findDependency(seed, dependency));
+    visiting.pop();
+    sorted.push(seed);
+  };
+
+  for (const seed of [...seeds].sort((a, b) => group(a) - group(b))) visit(seed);
+  return sorted;
+}
@@ -1,3 +1,8 @@
+/**
+ * The most parameters bound in one insert or delete, SQLite allows 999 in older versions.
+ */
+const MAX_PARAMETERS = 999;
+
 export function getLast<T>(arr: ArrayLike<T>): T | undefined {
   return arr[arr.length - 1];
 }
@@ -5,3 +10,14 @@ export function getLast<T>(arr: ArrayLike<T>): T | undefined {
 export function freeze<T>(obj: T): Readonly<T> {
   return Object.freeze(obj);
 }
+
+/**
+ * Splits rows into batches that stay under the parameter limit.
+ */
+export function toBatches<T extends Record<string, unknown>>(rows: T[]): T[][] {
+  const columns = rows.reduce((max, row) => Math.max(max, Object.keys(row).length), 1);
+  const size = Math.max(1, Math.floor(MAX_PARAMETERS / columns));
+  const batches: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) batches.push(rows.slice(i, i + size));
+  return batches;
+}
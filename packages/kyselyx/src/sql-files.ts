@@ -0,0 +1,142 @@
+import fs from "fs-extra";
+import { type Kysely, type Migration, sql } from "kysely";
+import { err, ok, type Result } from "neverthrow";
+import path from "path";
+import type { DefaultStores } from "./config.js";
+import { MigrationError, SeedError } from "./errors.js";
+import type { Seed } from "./seeder/seed.js";
+
+/**
+ * Matches a plain SQL migration or seed file, either a `.up.sql`/`.down.sql` pair or a single `.sql`
+ * file with `-- up` and `-- down` markers.
+ */
+const SQL_FILE_REGEX = /^(?<name>.+?)(\.(?<direction>up|down))?\.sql$/;
+
+/**
+ * The statements of a plain SQL migration or seed.
+ */
+export interface ISqlItem {
+  up: string[];
+  down: string[];
+}
+
+/**
+ * Returns the name of the migration or seed in a SQL file, or `undefined` if it is not a SQL file.
+ *
+ * @example
+ * getSqlItemName("1612345678_users.up.sql") // "1612345678_users"
+ * getSqlItemName("1612345678_users.sql") // "1612345678_users"
+ */
+export function getSqlItemName(file: string): string | undefined {
+  return SQL_FILE_REGEX.exec(file)?.groups?.name;
+}
+
+/**
+ * Reads the plain SQL migrations or seeds in a folder, keyed by the item name.
+ *
+ * @param folder The folder containing the migration or seed files.
+ * @param kind Whether the folder holds migrations or seeds, this selects the error thrown.
+ * @throws {MigrationError | SeedError} If a single `.sql` file has no `-- up` or `-- down` marker,
+ *   or has statements before its first marker, since they would never run.
+ */
+export async function readSqlItems(folder: string, kind: "migration" | "seed"): Promise<Record<string, ISqlItem>> {
+  const items: Record<string, ISqlItem> = {};
+  for (const file of (await fs.readdir(folder)).sort()) {
+    const { name, direction } = SQL_FILE_REGEX.exec(file)?.groups ?? {};
+    if (!name) continue;
+
+    const contents = await fs.readFile(path.resolve(folder, file), "utf-8");
+    const item = (items[name] ??= { up: [], down: [] });
+    if (direction === "up" || direction === "down") {
+      item[direction] = splitSqlStatements(contents);
+      continue;
+    }
+
+    const sectionsRes = parseSqlSections(contents);
+    if (sectionsRes.isErr()) {
+      const message = `The ${kind} file "${path.join(folder, file)}" ${sectionsRes.error}.`;
+      throw kind === "migration" ? new MigrationError("9a57b1", message) : new SeedError("7a51d3", message);
+    }
+    Object.assign(item, sectionsRes.value);
+  }
+
+  return items;
+}
+
+/**
+ * Returns the migrations which run the statements of the SQL items with `sql.raw`.
+ */
+export function toSqlMigrations(items: Record<string, ISqlItem>): Record<string, Migration> {
+  const run = (statements: string[]) => async (db: Kysely<any>) => {
+    for (const statement of statements) await sql.raw(statement).execute(db);
+  };
+  return Object.fromEntries(Object.entries(items).map(([name, it]) => [name, { up: run(it.up), down: run(it.down) }]));
+}
+
+/**
+ * Returns the seeds which run the statements of the SQL items with `sql.raw` against `stores.db`.
+ */
+export function toSqlSeeds(items: Record<string, ISqlItem>): Record<string, Seed> {
+  const run = (statements: string[]) => async (stores: DefaultStores) => {
+    for (const statement of statements) await sql.raw(statement).execute(stores.db);
+  };
+  return Object.fromEntries(Object.entries(items).map(([name, it]) => [name, { up: run(it.up), down: run(it.down) }]));
+}
+
+/**
+ * Splits a SQL file on its `-- up` and `-- down` marker lines. Only comments may come before the
+ * first marker, otherwise the reason the file is invalid is returned.
+ */
+function parseSqlSections(contents: string): Result<ISqlItem, string> {
+  const sections: Record<string, string[]> = { up: [], down: [] };
+  const preamble: string[] = [];
+  let section: string[] | undefined;
+  for (const line of contents.split(/\r?\n/)) {
+    const marker = /^\s*--\s*(up|down)\s*$/i.exec(line)?.[1]?.toLowerCase();
+    if (marker) section = sections[marker];
+    else (section ?? preamble).push(line);
+  }
+
+  if (!section) return err(`has no "-- up" or "-- down" marker line`);
+  if (splitSqlStatements(preamble.join("\n")).length > 0)
+    return err(`has statements before its first "-- up" or "-- down" marker line`);
+  return ok({ up: splitSqlStatements(sections.up!.join("\n")), down: splitSqlStatements(sections.down!.join("\n")) });
+}
+
+/**
+ * Splits SQL into statements on each `;` that is not inside a string, quoted identifier, comment or
+ * dollar-quoted block. Statements which only contain comments are dropped.
+ *
+ * @param contents The SQL to split.
+ */
+export function splitSqlStatements(contents: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+  while (i < contents.length) {
+    const char = contents[i]!;
+    const next = contents[i + 1];
+    if (char === "'" || char === '"' || char === "`") {
+      i = contents.indexOf(char, i + 1);
+      while (i !== -1 && contents[i + 1] === char) i = contents.indexOf(char, i + 2);
+      i = i === -1 ? contents.length : i + 1;
+    } else if (char === "-" && next === "-") {
+      i = contents.indexOf("\n", i);
+      if (i === -1) i = contents.length;
+    } else if (char === "/" && next === "*") {
+      i = contents.indexOf("*/", i + 2);
+      i = i === -1 ? contents.length : i + 2;
+    } else if (char === "$" && /^\$\w*\$/.test(contents.slice(i))) {
+      const tag = /^\$\w*\$/.exec(contents.slice(i))![0];
+      i = contents.indexOf(tag, i + tag.length);
+      i = i === -1 ? contents.length : i + tag.length;
+    } else if (char === ";") {
+      statements.push(contents.slice(start, i));
+      start = ++i;
+    } else i++;
+  }
+  statements.push(contents.slice(start));
+
+  const isEmpty = (statement: string) => statement.replace(/--.*$|\/\*[\s\S]*?\*\//gm, "").trim() === "";
+  return statements.map((it) => it.trim()).filter((it) => !isEmpty(it));
+}
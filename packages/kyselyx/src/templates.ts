@@ -0,0 +1,660 @@
+import { err, ok, type Result } from "neverthrow";
+import path from "path";
+import { MigrationError } from "./errors.js";
+import type {
+  IColumnSnapshot,
+  IForeignKeySnapshot,
+  IIndexSnapshot,
+  ISchemaSnapshot,
+  ITableSnapshot,
+  IUniqueConstraintSnapshot,
+} from "./schema.js";
+
+export const migrationTemplateTs = [
+  `import { Kysely, sql } from "kysely";`,
+  ``,
+  `/**`,
+  ` * The 'up' function runs when the migration is applied.`,
+  ` */`,
+  `async function up(db: Kysely<any>): Promise<void> {}`,
+  ``,
+  `/**`,
+  ` * The 'down' function runs when the migration is removed.`,
+  ` */`,
+  `async function down(db: Kysely<any>): Promise<void> {}`,
+  ``,
+  `export { up, down };`,
+].join("\n");
+
+export const migrationTemplateJs = [
+  `import { Kysely, sql } from "kysely";`,
+  ``,
+  `/**`,
+  ` * The 'up' function runs when the migration is applied.`,
+  ` *`,
+  ` * @param {import("kysely").Kysely<any>} db`,
+  ` * @returns {Promise<void>}`,
+  ` */`,
+  `async function up(db) {}`,
+  ``,
+  `/**`,
+  ` * The 'down' function runs when the migration is removed.`,
+  ` *`,
+  ` * @param {import("kysely").Kysely<any>} db`,
+  ` * @returns {Promise<void>}`,
+  ` */`,
+  `async function down(db) {}`,
+  ``,
+  `export { up, down };`,
+].join("\n");
+
+/**
+ * Returns the string contents of a new seed file.
+ *
+ * @param configFile The path to the Kyselyx configuration file.
+ * @param seedFile The path to the seed file.
+ */
+export function seedTemplateJs(configFile: string, seedFile: string) {
+  // get the relative path of the config file from the seed file
+  let relativePath = path.relative(path.dirname(seedFile), configFile);
+  // ensure the extension is ".js"
+  relativePath = relativePath.replace(/\.\w+$/, ".js");
+
+  return [
+    `/**`,
+    ` * The 'up' function runs when the seed is applied.`,
+    ` *`,
+    ` * @param {import("${relativePath}")["default"]["stores"]} stores`,
+    ` * @returns {Promise<void>}`,
+    ` */`,
+    `async function up({ db }) {}`,
+    ``,
+    `/**`,
+    ` * The 'down' function runs when the seed is removed.`,
+    ` *`,
+    ` * @param {import("${relativePath}")["default"]["stores"]} stores`,
+    ` * @returns {Promise<void>}`,
+    ` */`,
+    `async function down({ db }) {}`,
+    ``,
+    `export { up, down };`,
+  ].join("\n");
+}
+
+/**
+ * Returns the string contents of a new seed file.
+ *
+ * @param configFile The path to the Kyselyx configuration file.
+ * @param seedFile The path to the seed file.
+ */
+export function seedTemplateTs(configFile: string, seedFile: string) {
+  // get the relative path of the config file from the seed file
+  let relativePath = path.relative(path.dirname(seedFile), configFile);
+  // ensure the extension is ".ts"
+  relativePath = relativePath.replace(/\.\w+$/, ".ts");
+
+  return [
+    `import type config from "${relativePath}";`,
+    ``,
+    `type IStores = typeof config.stores;`,
+    ``,
+    `/**`,
+    ` * The 'up' function runs when the seed is applied.`,
+    ` */`,
+    `async function up({ db }: IStores): Promise<void> {}`,
+    ``,
+    `/**`,
+    ` * The 'down' function runs when the seed is removed.`,
+    ` */`,
+    `async function down({ db }: IStores): Promise<void> {}`,
+    ``,
+    `export { up, down };`,
+  ].join("\n");
+}
+
+export const DIALECTS = ["sqlite", "postgres", "mysql"] as const;
+export type Dialect = (typeof DIALECTS)[number];
+
+/**
+ * The imports and Kysely dialect for each supported database.
+ */
+const dialectTemplates: Record<Dialect, { imports: string[]; dialect: string }> = {
+  sqlite: {
+    imports: [`import SQLite from "better-sqlite3";`, `import { Kysely, SqliteDialect } from "kysely";`],
+    dialect: `new SqliteDialect({ database: new SQLite(process.env.DATABASE_URL ?? "db.sqlite") })`,
+  },
+  postgres: {
+    imports: [`import { Kysely, PostgresDialect } from "kysely";`, `import pg from "pg";`],
+    dialect: `new PostgresDialect({ pool: new pg.Pool({ connectionString: process.env.DATABASE_URL }) })`,
+  },
+  mysql: {
+    imports: [`import { Kysely, MysqlDialect } from "kysely";`, `import { createPool } from "mysql2";`],
+    dialect: `new MysqlDialect({ pool: createPool({ uri: process.env.DATABASE_URL }) })`,
+  },
+};
+
+/**
+ * Returns the string contents of a new TypeScript configuration file.
+ *
+ * @param dialect The database the config connects to.
+ */
+export function configTemplateTs(dialect: Dialect) {
+  const { imports, dialect: dialectCode } = dialectTemplates[dialect];
+
+  return [
+    ...imports,
+    `import type { DefaultStores, IConfigFile } from "kyselyx";`,
+    ``,
+    `const db = new Kysely<any>({ dialect: ${dialectCode} });`,
+    ``,
+    `const config: IConfigFile<DefaultStores> = {`,
+    `  stores: { db },`,
+    `  migrationsFolder: "migrations",`,
+    `  seedsFolder: "seeds",`,
+    `};`,
+    ``,
+    `export default config;`,
+  ].join("\n");
+}
+
+/**
+ * Returns the string contents of a new JavaScript configuration file.
+ *
+ * @param dialect The database the config connects to.
+ */
+export function configTemplateJs(dialect: Dialect) {
+  const { imports, dialect: dialectCode } = dialectTemplates[dialect];
+
+  return [
+    ...imports,
+    ``,
+    `const db = new Kysely({ dialect: ${dialectCode} });`,
+    ``,
+    `/** @type {import("kyselyx").IConfigFile<import("kyselyx").DefaultStores>} */`,
+    `const config = {`,
+    `  stores: { db },`,
+    `  migrationsFolder: "migrations",`,
+    `  seedsFolder: "seeds",`,
+    `};`,
+    ``,
+    `export default config;`,
+  ].join("\n");
+}
+
+/**
+ * The TypeScript type of each column data type, matched in order against the lower-cased data type
+ * reported by `db.introspection`. Dialects return some types differently, for example SQLite has no
+ * date or boolean types and returns strings and numbers instead.
+ */
+const columnTypes: [RegExp, string | ((dialect?: Dialect) => string)][] = [
+  [/^(bigint|int8|bigserial|serial8)\b/, "number | string"],
+  [/^bool(ean)?\b/, (dialect) => (dialect === "sqlite" ? "number" : "boolean")],
+  [/int|serial/, "number"],
+  [/^(numeric|decimal|money)\b/, "string"],
+  [/^(real|double|float)/, "number"],
+  [/^(timestamp|datetime|date)\b/, (dialect) => (dialect === "sqlite" ? "string" : "Date")],
+  [/^jsonb?\b/, "unknown"],
+  [/blob|bytea|binary/, "Buffer"],
+  [/char|text|clob|uuid|time|interval|enum|inet|cidr/, "string"],
+];
+
+/**
+ * Returns the string contents of a file declaring the `Database` interface of the schema. Columns
+ * with a default value or which auto-increment are wrapped in Kysely's `Generated` type.
+ *
+ * @param snapshot The snapshot of the schema.
+ * @param dialect The database the schema was introspected from.
+ */
+export function databaseTypesTemplate(snapshot: ISchemaSnapshot, dialect?: Dialect) {
+  const toPascalCase = (name: string) =>
+    name
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part[0]!.toUpperCase() + part.slice(1))
+      .join("");
+  const toKey = (name: string) => (/^[a-zA-Z_$][\w$]*$/.test(name) ? name : JSON.stringify(name));
+  const toType = (dataType: string) => {
+    const match = columnTypes.find(([pattern]) => pattern.test(dataType.toLowerCase()));
+    if (!match) return "unknown";
+    return typeof match[1] === "string" ? match[1] : match[1](dialect);
+  };
+
+  const lines = [
+    `// This file is generated by "kyselyx generate:types", do not edit it by hand.`,
+    `import type { Generated } from "kysely";`,
+  ];
+  for (const table of snapshot.tables) {
+    lines.push(``, `export interface ${toPascalCase(table.name)} {`);
+    for (const column of table.columns) {
+      let type = toType(column.dataType);
+      // SQLite reports integer primary keys as nullable, but an auto-incremented value is never null
+      if (column.isNullable && !column.isAutoIncrementing) type = `${type} | null`;
+      if (column.hasDefaultValue || column.isAutoIncrementing) type = `Generated<${type}>`;
+      lines.push(`  ${toKey(column.name)}: ${type};`);
+    }
+    lines.push(`}`);
+  }
+  lines.push(``, `export interface Database {`);
+  for (const table of snapshot.tables) lines.push(`  ${toKey(table.name)}: ${toPascalCase(table.name)};`);
+  lines.push(`}`, ``);
+
+  return lines.join("\n");
+}
+
+/**
+ * Returns the string contents of a new migration file which changes the schema from one snapshot to
+ * another, or `null` if the snapshots are the same. The `down` function reverts the changes in
+ * reverse order. Tables are created after the tables they reference and dropped before them.
+ *
+ * Changes which can't be written as a migration are returned as an error listing each of them, such
+ * as views, whose definition is not part of a snapshot, or altering a column on SQLite.
+ *
+ * @param from The snapshot of the schema before the migration.
+ * @param to The snapshot of the schema after the migration.
+ * @param js Generate a JavaScript migration file.
+ * @param dialect The database the snapshots were introspected from.
+ */
+export function migrationFromDiffTemplate(
+  from: ISchemaSnapshot,
+  to: ISchemaSnapshot,
+  js?: boolean,
+  dialect?: Dialect,
+): Result<string | null, MigrationError> {
+  const up: string[][] = [];
+  const down: string[][] = [];
+  const unsupported: string[] = [];
+  const change = (upStatement: string[], downStatement: string[]) => {
+    up.push(upStatement);
+    down.unshift(downStatement);
+  };
+  const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+  // views are only described by their columns
+  for (const name of new Set([...from.tables, ...to.tables].filter((it) => it.isView).map((it) => it.name))) {
+    const [before, after] = [from, to].map((snapshot) => snapshot.tables.find((it) => it.name === name));
+    if (!isEqual(before, after))
+      unsupported.push(`View "${name}" has changed, the definition of views is not part of the schema snapshot.`);
+  }
+
+  const added = to.tables.filter((t) => !t.isView && !from.tables.some((it) => it.name === t.name));
+  const removed = from.tables.filter((t) => !t.isView && !to.tables.some((it) => it.name === t.name));
+  const changed = to.tables.flatMap((table) => {
+    const previous = from.tables.find((it) => it.name === table.name && !it.isView);
+    return !table.isView && previous ? [[previous, table] as const] : [];
+  });
+
+  // drop the constraints and indexes which are removed or changed before the columns they use
+  for (const [previous, table] of changed) {
+    if (!isEqual(previous.primaryKey, table.primaryKey))
+      unsupported.push(`The primary key of table "${table.name}" has changed, which can't be altered.`);
+    for (const index of previous.indexes.filter((i) => !table.indexes.some((it) => isEqual(it, i))))
+      change(dropIndexStatement(table.name, index, dialect), createIndexStatement(table.name, index, unsupported));
+    for (const constraint of previous.uniqueConstraints.filter(
+      (u) => !table.uniqueConstraints.some((it) => isEqual(it, u)),
+    ))
+      change(
+        dropConstraintStatement(table.name, constraint.name, dialect, unsupported),
+        alterTableStatement(table.name, uniqueConstraintDefinition(table.name, constraint)),
+      );
+    for (const foreignKey of previous.foreignKeys.filter((f) => !table.foreignKeys.some((it) => isEqual(it, f))))
+      change(
+        dropConstraintStatement(table.name, foreignKey.name, dialect, unsupported),
+        alterTableStatement(table.name, foreignKeyDefinition(table.name, foreignKey, true)),
+      );
+  }
+
+  // change the columns of existing tables
+  for (const [previous, table] of changed) {
+    for (const column of table.columns) {
+      const before = previous.columns.find((it) => it.name === column.name);
+      if (before) change(...alterColumnStatements(table.name, before, column, dialect, unsupported));
+      else if (column.isAutoIncrementing)
+        unsupported.push(`Column "${table.name}.${column.name}" is auto-incrementing, which can't be added.`);
+      else
+        change(addColumnStatement(table, column, dialect, unsupported), dropColumnStatement(table.name, column.name));
+    }
+    for (const column of previous.columns.filter((c) => !table.columns.some((it) => it.name === c.name)))
+      change(dropColumnStatement(table.name, column.name), addColumnStatement(previous, column, dialect, unsupported));
+  }
+
+  for (const table of sortByReferences(added, unsupported)) {
+    change(createTableStatement(table, dialect, unsupported), dropTableStatement(table.name));
+    for (const index of table.indexes)
+      change(createIndexStatement(table.name, index, unsupported), dropIndexStatement(table.name, index, dialect));
+  }
+
+  // add the constraints and indexes once the columns and tables they use exist
+  for (const [previous, table] of changed) {
+    for (const constraint of table.uniqueConstraints.filter(
+      (u) => !previous.uniqueConstraints.some((it) => isEqual(it, u)),
+    ))
+      change(
+        alterTableStatement(table.name, uniqueConstraintDefinition(table.name, constraint)),
+        dropConstraintStatement(table.name, constraint.name, dialect, unsupported),
+      );
+    for (const foreignKey of table.foreignKeys.filter((f) => !previous.foreignKeys.some((it) => isEqual(it, f))))
+      change(
+        alterTableStatement(table.name, foreignKeyDefinition(table.name, foreignKey, true)),
+        dropConstraintStatement(table.name, foreignKey.name, dialect, unsupported),
+      );
+    for (const index of table.indexes.filter((i) => !previous.indexes.some((it) => isEqual(it, i))))
+      change(createIndexStatement(table.name, index, unsupported), dropIndexStatement(table.name, index, dialect));
+  }
+
+  for (const table of sortByReferences(removed, unsupported).reverse()) {
+    for (const index of table.indexes)
+      change(dropIndexStatement(table.name, index, dialect), createIndexStatement(table.name, index, unsupported));
+    change(dropTableStatement(table.name), createTableStatement(table, dialect, unsupported));
+  }
+
+  if (unsupported.length > 0) {
+    const message = `The migration can't be generated:\n${unsupported.map((it) => `- ${it}`).join("\n")}`;
+    return err(new MigrationError("5d2e8b", message));
+  }
+
+  const upLines = up.filter((it) => it.length > 0);
+  if (upLines.length === 0) return ok(null);
+
+  const body = (statements: string[][]) =>
+    `{\n${statements
+      .filter((it) => it.length > 0)
+      .map((it) => it.map((line) => `  ${line}`).join("\n"))
+      .join("\n\n")}\n}`;
+  const [upTemplate, downTemplate] = js
+    ? ["async function up(db) {}", "async function down(db) {}"]
+    : [
+        "async function up(db: Kysely<any>): Promise<void> {}",
+        "async function down(db: Kysely<any>): Promise<void> {}",
+      ];
+  return ok(
+    (js ? migrationTemplateJs : migrationTemplateTs)
+      .replace(upTemplate, upTemplate.replace(/\{\}$/, body(upLines)))
+      .replace(downTemplate, downTemplate.replace(/\{\}$/, body(down))),
+  );
+}
+
+/**
+ * Returns the string contents of a baseline migration which creates the schema of the snapshot, and
+ * lists the migrations it replaces in the `replaces` export. Like `migrationFromDiffTemplate`, a
+ * schema which can't be written as a migration is returned as an error.
+ *
+ * @param snapshot The snapshot of the schema after the replaced migrations.
+ * @param replaces The names of the replaced migrations, the last being the migration squashed until.
+ * @param js Generate a JavaScript migration file.
+ * @param dialect The database the snapshot was introspected from.
+ */
+export function baselineMigrationTemplate(
+  snapshot: ISchemaSnapshot,
+  replaces: string[],
+  js?: boolean,
+  dialect?: Dialect,
+): Result<string, MigrationError> {
+  return migrationFromDiffTemplate({ tables: [] }, snapshot, js, dialect).map((contents) =>
+    [
+      contents ?? (js ? migrationTemplateJs : migrationTemplateTs),
+      ``,
+      `/**`,
+      ` * The migrations squashed into this migration. A database which applied them records this`,
+      ` * migration as applied in their place.`,
+      ` */`,
+      `export const replaces = ${JSON.stringify(replaces, null, 2)};`,
+      ``,
+    ].join("\n"),
+  );
+}
+
+/**
+ * The serial types of Postgres, keyed by the integer type they create.
+ */
+const serialTypes: Record<string, string> = { int2: "smallserial", int4: "serial", int8: "bigserial" };
+
+/**
+ * Returns a `sql` template literal of the raw SQL.
+ */
+function rawSql(text: string) {
+  return `sql\`${text.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$\{/g, "\\${")}\``;
+}
+
+function list(items: string[]) {
+  return `[${items.map((it) => JSON.stringify(it)).join(", ")}]`;
+}
+
+/**
+ * Returns the name of a table without its schema.
+ */
+function baseName(tableName: string) {
+  return tableName.split(".").at(-1)!;
+}
+
+/**
+ * Orders the tables so each table comes after the tables it references. References between the
+ * tables which form a cycle are reported as unsupported.
+ */
+function sortByReferences(tables: ITableSnapshot[], unsupported: string[]) {
+  const sorted: ITableSnapshot[] = [];
+  const visiting = new Set<string>();
+  const visit = (table: ITableSnapshot) => {
+    if (sorted.includes(table)) return;
+    if (visiting.has(table.name)) {
+      unsupported.push(`Table "${table.name}" is part of a cycle of foreign keys, which can't be created in order.`);
+      return;
+    }
+    visiting.add(table.name);
+    for (const { referencedTable } of table.foreignKeys) {
+      const referenced = tables.find((it) => it.name === referencedTable);
+      if (referenced && referenced !== table) visit(referenced);
+    }
+    visiting.delete(table.name);
+    sorted.push(table);
+  };
+  for (const table of tables) visit(table);
+  return sorted;
+}
+
+/**
+ * Returns the column builder arguments of `addColumn`. A primary key of a single column is declared
+ * on the column, which SQLite requires for auto-incrementing columns.
+ */
+function columnDefinition(
+  table: ITableSnapshot,
+  column: IColumnSnapshot,
+  dialect: Dialect | undefined,
+  unsupported: string[],
+) {
+  const name = `${table.name}.${column.name}`;
+  const isPrimaryKey = table.primaryKey.length === 1 && table.primaryKey[0] === column.name;
+  let dataType = column.dataType;
+
+  // Postgres declares auto-incrementing columns with a serial type, which creates the default
+  const isSerial = dialect === "postgres" && column.isAutoIncrementing;
+  if (isSerial) {
+    if (serialTypes[dataType]) dataType = serialTypes[dataType]!;
+    else unsupported.push(`Column "${name}" is auto-incrementing with the type "${dataType}", which isn't serial.`);
+  }
+  if (column.isAutoIncrementing && dialect === "sqlite" && !isPrimaryKey)
+    unsupported.push(`Column "${name}" is auto-incrementing without being the primary key.`);
+  if (column.hasDefaultValue && column.defaultValue === null && !column.isAutoIncrementing)
+    unsupported.push(`The default value of column "${name}" is not known.`);
+  if (!isSerial && column.defaultValue?.startsWith("nextval("))
+    unsupported.push(
+      `The default value of column "${name}" uses a sequence, which is not part of the schema snapshot.`,
+    );
+
+  const modifiers = [
+    isPrimaryKey ? ".primaryKey()" : "",
+    column.isAutoIncrementing && !isSerial ? ".autoIncrement()" : "",
+    !column.isNullable && !column.isAutoIncrementing ? ".notNull()" : "",
+    column.defaultValue !== null && !isSerial
+      ? `.defaultTo(${rawSql(defaultExpression(column.defaultValue, dialect))})`
+      : "",
+  ].join("");
+  const builder = modifiers ? `, (col) => col${modifiers}` : "";
+  return `${JSON.stringify(column.name)}, ${rawSql(dataType)}${builder}`;
+}
+
+/**
+ * Returns the default value in the form `defaultTo` accepts. SQLite reports defaults without the
+ * parentheses an expression needs, while MySQL reports expressions with them.
+ */
+function defaultExpression(defaultValue: string, dialect: Dialect | undefined) {
+  return dialect === "mysql" ? defaultValue : `(${defaultValue})`;
+}
+
+function uniqueConstraintDefinition(tableName: string, constraint: IUniqueConstraintSnapshot) {
+  const name = constraint.name ?? `${baseName(tableName)}_${constraint.columns.join("_")}_unique`;
+  return `.addUniqueConstraint(${JSON.stringify(name)}, ${list(constraint.columns)})`;
+}
+
+/**
+ * Returns the `addForeignKeyConstraint` call of a foreign key. The actions are set in a callback when
+ * creating a table, and chained when altering one.
+ */
+function foreignKeyDefinition(tableName: string, foreignKey: IForeignKeySnapshot, alter?: boolean) {
+  const name = foreignKey.name ?? `${baseName(tableName)}_${foreignKey.columns.join("_")}_fkey`;
+  const args = [
+    JSON.stringify(name),
+    list(foreignKey.columns),
+    JSON.stringify(foreignKey.referencedTable),
+    list(foreignKey.referencedColumns),
+  ];
+  const actions = [
+    foreignKey.onDelete !== "no action" ? `.onDelete(${JSON.stringify(foreignKey.onDelete)})` : "",
+    foreignKey.onUpdate !== "no action" ? `.onUpdate(${JSON.stringify(foreignKey.onUpdate)})` : "",
+  ].join("");
+  if (actions && !alter) args.push(`(cb) => cb${actions}`);
+  return `.addForeignKeyConstraint(${args.join(", ")})${alter ? actions : ""}`;
+}
+
+function createTableStatement(table: ITableSnapshot, dialect: Dialect | undefined, unsupported: string[]) {
+  const primaryKey =
+    table.primaryKey.length > 1
+      ? [`  .addPrimaryKeyConstraint(${JSON.stringify(`${baseName(table.name)}_pkey`)}, ${list(table.primaryKey)})`]
+      : [];
+  return [
+    `await db.schema`,
+    `  .createTable(${JSON.stringify(table.name)})`,
+    ...table.columns.map((column) => `  .addColumn(${columnDefinition(table, column, dialect, unsupported)})`),
+    ...primaryKey,
+    ...table.uniqueConstraints.map((it) => `  ${uniqueConstraintDefinition(table.name, it)}`),
+    ...table.foreignKeys.map((it) => `  ${foreignKeyDefinition(table.name, it)}`),
+    `  .execute();`,
+  ];
+}
+
+function dropTableStatement(tableName: string) {
+  return [`await db.schema.dropTable(${JSON.stringify(tableName)}).execute();`];
+}
+
+function alterTableStatement(tableName: string, definition: string) {
+  return [`await db.schema`, `  .alterTable(${JSON.stringify(tableName)})`, `  ${definition}`, `  .execute();`];
+}
+
+/**
+ * Returns the statement that drops a unique constraint or foreign key. SQLite can't drop
+ * constraints, and a constraint can only be dropped by the name the database reports.
+ */
+function dropConstraintStatement(
+  tableName: string,
+  name: string | null,
+  dialect: Dialect | undefined,
+  unsupported: string[],
+) {
+  if (dialect === "sqlite" || name === null) {
+    unsupported.push(`A constraint of table "${tableName}" has changed, which can't be altered.`);
+    return [];
+  }
+  return [
+    `await db.schema.alterTable(${JSON.stringify(tableName)}).dropConstraint(${JSON.stringify(name)}).execute();`,
+  ];
+}
+
+function createIndexStatement(tableName: string, index: IIndexSnapshot, unsupported: string[]) {
+  if (index.hasExpressions)
+    unsupported.push(
+      `Index "${index.name}" on table "${tableName}" is partial or indexes expressions, which the schema snapshot doesn't describe.`,
+    );
+  return [
+    `await db.schema`,
+    `  .createIndex(${JSON.stringify(index.name)})`,
+    ...(index.isUnique ? [`  .unique()`] : []),
+    `  .on(${JSON.stringify(tableName)})`,
+    `  .columns(${list(index.columns)})`,
+    `  .execute();`,
+  ];
+}
+
+/**
+ * Returns the statement that drops an index, the index is in the schema of its table. MySQL also
+ * needs the table of the index.
+ */
+function dropIndexStatement(tableName: string, index: IIndexSnapshot, dialect: Dialect | undefined) {
+  const schema = tableName.includes(".") ? `${tableName.slice(0, tableName.lastIndexOf("."))}.` : "";
+  const on = dialect === "mysql" ? `.on(${JSON.stringify(tableName)})` : "";
+  return [`await db.schema.dropIndex(${JSON.stringify(`${schema}${index.name}`)})${on}.execute();`];
+}
+
+function addColumnStatement(
+  table: ITableSnapshot,
+  column: IColumnSnapshot,
+  dialect: Dialect | undefined,
+  unsupported: string[],
+) {
+  return [
+    `await db.schema`,
+    `  .alterTable(${JSON.stringify(table.name)})`,
+    `  .addColumn(${columnDefinition(table, column, dialect, unsupported)})`,
+    `  .execute();`,
+  ];
+}
+
+function dropColumnStatement(tableName: string, columnName: string) {
+  return [
+    `await db.schema.alterTable(${JSON.stringify(tableName)}).dropColumn(${JSON.stringify(columnName)}).execute();`,
+  ];
+}
+
+/**
+ * Returns the statements that change a column from one definition to another, and the statements
+ * that change it back. SQLite can't alter columns.
+ */
+function alterColumnStatements(
+  tableName: string,
+  before: IColumnSnapshot,
+  after: IColumnSnapshot,
+  dialect: Dialect | undefined,
+  unsupported: string[],
+): [string[], string[]] {
+  const name = `${tableName}.${after.name}`;
+  if (JSON.stringify(before) === JSON.stringify(after)) return [[], []];
+  if (dialect === "sqlite") {
+    unsupported.push(`Column "${name}" has changed, which SQLite can't alter.`);
+    return [[], []];
+  }
+  if (before.isAutoIncrementing !== after.isAutoIncrementing)
+    unsupported.push(`Column "${name}" has changed whether it auto-increments, which can't be altered.`);
+  if (after.hasDefaultValue && after.defaultValue === null && !after.isAutoIncrementing)
+    unsupported.push(`The default value of column "${name}" is not known.`);
+
+  const alter = (from: IColumnSnapshot, to: IColumnSnapshot) => {
+    const changes: string[] = [];
+    if (from.dataType !== to.dataType) changes.push(`(col) => col.setDataType(${rawSql(to.dataType)})`);
+    if (from.isNullable !== to.isNullable)
+      changes.push(`(col) => col.${to.isNullable ? "dropNotNull" : "setNotNull"}()`);
+    if (from.defaultValue !== to.defaultValue && !to.isAutoIncrementing)
+      changes.push(
+        to.defaultValue === null
+          ? `(col) => col.dropDefault()`
+          : `(col) => col.setDefault(${rawSql(defaultExpression(to.defaultValue, dialect))})`,
+      );
+    if (changes.length === 0) return [];
+
+    return [
+      `await db.schema`,
+      `  .alterTable(${JSON.stringify(tableName)})`,
+      ...changes.map((it) => `  .alterColumn(${JSON.stringify(to.name)}, ${it})`),
+      `  .execute();`,
+    ];
+  };
+
+  return [alter(before, after), alter(after, before)];
+}
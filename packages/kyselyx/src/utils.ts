@@ -1,17 +1,45 @@
+import { createHash, type Hash } from "crypto";
 import fs from "fs-extra";
-import { FileMigrationProvider, type MigrationInfo, Migrator, type NoMigrations } from "kysely";
+import {
+  FileMigrationProvider,
+  Kysely,
+  type MigrationInfo,
+  Migrator,
+  MysqlAdapter,
+  type NoMigrations,
+  PostgresAdapter,
+  SqliteAdapter,
+} from "kysely";
 import { err, ok, type Result, ResultAsync } from "neverthrow";
+import type { Ora } from "ora";
 import path from "path";
-import { getConfig, MIGRATION_LOCK_TABLE_NAME, MIGRATION_TABLE_NAME, SEED_TABLE_NAME } from "./config.js";
-import { BaseError, ConfigError, KyselyError, MigrationError, SeedError } from "./errors.js";
+import readline from "readline/promises";
+import { getConfig, type IConfig } from "./config.js";
+import { BaseError, ConfigError, FileSystemError, KyselyError, MigrationError, SeedError } from "./errors.js";
+import type { IRunResult, IStatusResult, Kyselyx, KyselyxError } from "./kyselyx.js";
 import { FileSeedProvider } from "./seeder/file-seed-provider.js";
-import { NO_SEEDS, type NoSeeds, Seeder, type SeedInfo } from "./seeder/seed.js";
+import { FIXTURE_FILE_REGEX } from "./seeder/fixtures.js";
+import { NO_SEEDS, type NoSeeds, Seeder, type Seed as SeederSeed, type SeedInfo } from "./seeder/seed.js";
+import { getSqlItemName, readSqlItems, toSqlMigrations, toSqlSeeds } from "./sql-files.js";
+import type { Dialect } from "./templates.js";
 
 /**
  * Returns the identity of the passed argument. This is syntatic sugar.
  */
 const identity = <T>(x: T) => x;
 
+/**
+ * Returns the migrations or seeds with the named items replaced by ones that do nothing. Running
+ * them records them as applied without changing the database.
+ */
+function withNoopItems<T>(items: Record<string, T>, names: string[]): Record<string, T> {
+  if (names.length === 0) return items;
+  const noop = { up: async () => {}, down: async () => {} };
+  return Object.fromEntries(
+    Object.entries(items).map(([name, item]) => [name, names.includes(name) ? { ...item, ...noop } : item]),
+  );
+}
+
 // -------------------------------------------------------------------------------------------------
 // Migration Utilities
 // -------------------------------------------------------------------------------------------------
@@ -35,23 +63,46 @@ export function isNoMigrations(migration: any): migration is NoMigrations {
   return isObject && "__noMigrations__" in migration && migration.__noMigrations__ === true;
 }
 
+/**
+ * Returns a migrator object for the supplied configuration.
+ *
+ * @param config The configuration.
+ * @param noop The names of migrations which do nothing when run, see `withNoopItems`.
+ */
+export function createMigrator(
+  {
+    stores: { db },
+    migrationsFolder,
+    migrationTableName,
+    migrationLockTableName,
+    metadataSchema,
+  }: Pick<IConfig, "stores" | "migrationsFolder" | "migrationTableName" | "migrationLockTableName" | "metadataSchema">,
+  noop: string[] = [],
+): Result<Migrator, ConfigError> {
+  if (!fs.existsSync(migrationsFolder))
+    return err(new ConfigError("3cb1db", `Migrations folder not found: ${migrationsFolder}`));
+
+  const provider = new FileMigrationProvider({ fs, path, migrationFolder: path.resolve(migrationsFolder) });
+  const getMigrations = async () => ({
+    ...(await provider.getMigrations()),
+    ...toSqlMigrations(await readSqlItems(migrationsFolder, "migration")),
+  });
+  const migrator = new Migrator({
+    db,
+    provider: { getMigrations: async () => withNoopItems(await getMigrations(), noop) },
+    migrationTableName,
+    migrationLockTableName,
+    migrationTableSchema: metadataSchema,
+  });
+
+  return ok(migrator);
+}
+
 /**
  * Reads the configuration and returns a migrator object.
  */
 export function getMigrator(): Result<Migrator, ConfigError> {
-  return getConfig().andThen(({ stores: { db }, migrationsFolder }) => {
-    if (!fs.existsSync(migrationsFolder))
-      return err(new ConfigError("3cb1db", `Migrations folder not found: ${migrationsFolder}`));
-
-    const migrator = new Migrator({
-      db,
-      provider: new FileMigrationProvider({ fs, path, migrationFolder: path.resolve(migrationsFolder) }),
-      migrationTableName: MIGRATION_TABLE_NAME,
-      migrationLockTableName: MIGRATION_LOCK_TABLE_NAME,
-    });
-
-    return ok(migrator);
-  });
+  return getConfig().andThen(createMigrator);
 }
 
 /**
@@ -78,6 +129,69 @@ export async function getMigrations(migrator: Migrator) {
   });
 }
 
+/**
+ * Returns the names of the migrations a baseline migration replaces, or `undefined` if the
+ * migration is not a baseline.
+ */
+export function getReplaced(migration: Migration): string[] | undefined {
+  const { replaces } = migration.migration as { replaces?: unknown };
+  return Array.isArray(replaces) ? replaces : undefined;
+}
+
+/**
+ * Records each unapplied baseline migration as applied in place of the migrations it replaces, if
+ * the database applied them. Migrations are applied in order, so the replaced migrations have been
+ * applied when the last of them has. Returns the names of the baselines recorded.
+ *
+ * @param db The database containing the migration table.
+ * @param table The migration metadata table.
+ * @param migrations All migrations sorted by name.
+ */
+export async function applySquashes(
+  db: Kysely<any>,
+  table: IMetadataTable,
+  migrations: Migration[],
+): Promise<Result<string[], KyselyError | MigrationError>> {
+  const baselines = migrations.filter((it) => !it.executedAt && getReplaced(it));
+  if (baselines.length === 0) return ok([]);
+
+  const foundRes = await ResultAsync.fromPromise(findTable(db, table), KyselyError.fromThrown("4f0b6e"));
+  if (foundRes.isErr()) return err(foundRes.error);
+  if (!foundRes.value) return ok([]);
+
+  const recorded: string[] = [];
+  for (const baseline of baselines) {
+    const replaces = getReplaced(baseline)!;
+    const appliedRes = await ResultAsync.fromPromise(
+      withTableSchema(db, table).selectFrom(table.name).select("name").where("name", "in", replaces).execute(),
+      KyselyError.fromThrown("d93a0c"),
+    );
+    if (appliedRes.isErr()) return err(appliedRes.error);
+    const applied = appliedRes.value.map((row) => row.name as string);
+    if (applied.length === 0) continue;
+    if (!applied.includes(replaces.at(-1)!)) {
+      const message = `The migrations replaced by "${baseline.name}" are partly applied, migrate to "${replaces.at(-1)}" with the original migrations first.`;
+      return err(new MigrationError("72be1d", message));
+    }
+
+    const recordRes = await ResultAsync.fromPromise(
+      db.transaction().execute(async (trx) => {
+        const tableDb = withTableSchema(trx, table);
+        await tableDb.deleteFrom(table.name).where("name", "in", replaces).execute();
+        await tableDb
+          .insertInto(table.name)
+          .values({ name: baseline.name, timestamp: new Date().toISOString() })
+          .execute();
+      }),
+      KyselyError.fromThrown("5e27a8"),
+    );
+    if (recordRes.isErr()) return err(recordRes.error);
+    recorded.push(baseline.name);
+  }
+
+  return ok(recorded);
+}
+
 // -------------------------------------------------------------------------------------------------
 // Seed Utilities
 // -------------------------------------------------------------------------------------------------
@@ -102,42 +216,126 @@ export function isNoSeeds(seed: any): seed is NoSeeds {
 }
 
 /**
- * Reads the configuration and returns a seeder object.
+ * Returns a seeder object for the supplied configuration.
+ *
+ * @param config The configuration.
+ * @param noop The names of seeds which do nothing when run, see `withNoopItems`.
  */
-export function getSeeder(): Result<Seeder, ConfigError> {
-  return getConfig().andThen(({ stores, seedsFolder }) => {
-    if (!fs.existsSync(seedsFolder)) return err(new ConfigError("82bc3a", `Seeds folder not found: ${seedsFolder}`));
-
-    const seeder = new Seeder({
-      stores,
-      provider: new FileSeedProvider({ fs, path, seedFolder: path.resolve(seedsFolder) }),
-      seedTableName: SEED_TABLE_NAME,
-    });
+export function createSeeder(
+  {
+    stores,
+    env,
+    environmentNames,
+    seedsFolder,
+    migrationsFolder,
+    seedLockTimeout,
+    seedTableName,
+    seedLockTableName,
+    metadataSchema,
+  }: Pick<
+    IConfig,
+    | "stores"
+    | "env"
+    | "environmentNames"
+    | "seedsFolder"
+    | "migrationsFolder"
+    | "seedLockTimeout"
+    | "seedTableName"
+    | "seedLockTableName"
+    | "metadataSchema"
+  >,
+  noop: string[] = [],
+): Result<Seeder, ConfigError> {
+  if (!fs.existsSync(seedsFolder)) return err(new ConfigError("82bc3a", `Seeds folder not found: ${seedsFolder}`));
+
+  // seeds in a `<env>` subfolder of the seeds folder only run in that environment
+  const getSeeds = async () => {
+    const seeds: Record<string, SeederSeed> = {};
+    for (const { folder, environment } of await getSeedFolders(seedsFolder, environmentNames)) {
+      const provider = new FileSeedProvider({ fs, path, seedFolder: path.resolve(folder) });
+      const folderSeeds = { ...(await provider.getSeeds()), ...toSqlSeeds(await readSqlItems(folder, "seed")) };
+      for (const [name, seed] of Object.entries(folderSeeds)) {
+        if (seeds[name]) throw new Error(`Seed "${name}" is defined in more than one seeds folder.`);
+        seeds[name] = environment ? { ...seed, environments: [environment] } : seed;
+      }
+    }
+    return seeds;
+  };
 
-    return ok(seeder);
+  // seeds are grouped by the migration they are bound to, so `dependsOn` never moves a seed before
+  // a migration it needs, this follows the timestamp rules of `getBoundMigration`
+  const getSeedGroups = async (names: ReadonlyArray<string>) => {
+    const files = fs.existsSync(migrationsFolder) ? await fs.readdir(migrationsFolder) : [];
+    const timestamps = new Set(files.map((file) => parseInt(getMigrationName(file) ?? "")).filter((ts) => !isNaN(ts)));
+    const group = (name: string) => [...timestamps].filter((ts) => ts < parseInt(name)).length;
+    return Object.fromEntries(names.map((name) => [name, group(name)]));
+  };
+  const seeder = new Seeder({
+    stores,
+    provider: { getSeeds: async () => withNoopItems(await getSeeds(), noop) },
+    seedTableName,
+    seedLockTableName,
+    seedTableSchema: metadataSchema,
+    seedLockTimeout,
+    getSeedGroups,
+    environment: env,
   });
+
+  return ok(seeder);
+}
+
+/**
+ * Returns the seeds folder and the subfolders named after a configured environment, keyed by the
+ * environment their seeds run in. Other subfolders are not read.
+ */
+async function getSeedFolders(
+  seedsFolder: string,
+  environmentNames: ReadonlyArray<string>,
+): Promise<{ folder: string; environment?: string }[]> {
+  const entries = await fs.readdir(seedsFolder, { withFileTypes: true });
+  const subfolders = entries
+    .filter((entry) => entry.isDirectory() && environmentNames.includes(entry.name))
+    .map((entry) => entry.name)
+    .sort();
+  return [
+    { folder: seedsFolder },
+    ...subfolders.map((env) => ({ folder: path.join(seedsFolder, env), environment: env })),
+  ];
+}
+
+/**
+ * Reads the configuration and returns a seeder object.
+ */
+export function getSeeder(): Result<Seeder, ConfigError> {
+  return getConfig().andThen(createSeeder);
 }
 
 /**
- * Get all seeds and returns a list of all seeds, applied seeds, and unapplied seeds.
+ * Get all seeds and returns a list of all seeds, applied seeds, and unapplied seeds. Seeds which
+ * don't run in the current environment are only returned in the list of skipped seeds.
  */
 export async function getSeeds(seeder: Seeder) {
   return ResultAsync.fromPromise(seeder.getSeeds(), KyselyError.fromThrown("7dacfe")).andThen((seeds) => {
     const allSeeds: Seed[] = [];
     const unappliedSeeds: UnappliedSeed[] = [];
     const appliedSeeds: AppliedSeed[] = [];
+    const skippedSeeds: Seed[] = [];
     for (const seed of seeds) {
       const namePartsRes = getNameParts(seed);
       if (namePartsRes.isErr()) return err(namePartsRes.error);
 
       const { timestamp, label } = namePartsRes.value;
       const _seed = { ...seed, timestamp, label };
+      if (_seed.skipped) {
+        skippedSeeds.push(_seed);
+        continue;
+      }
       allSeeds.push(_seed);
       if (_seed.executedAt) appliedSeeds.push(_seed as AppliedSeed);
       else unappliedSeeds.push(_seed as UnappliedSeed);
     }
 
-    return ok({ allSeeds, unappliedSeeds, appliedSeeds });
+    return ok({ allSeeds, unappliedSeeds, appliedSeeds, skippedSeeds });
   });
 }
 
@@ -245,6 +443,258 @@ export async function getTargetSeed(props: IGetTargetSeedProps) {
   }
 }
 
+/**
+ * Returns the migration a seed is bound to. A seed is bound to the last migration with a smaller
+ * timestamp, it can only be applied once that migration is applied and is reverted along with it.
+ * Seeds with a timestamp before every migration are not bound to any migration.
+ *
+ * This follows the same timestamp rules as `getTargetSeed`.
+ *
+ * @param seed The seed to find the bound migration for.
+ * @param allMigrations All migrations sorted by name.
+ */
+export function getBoundMigration(seed: Seed, allMigrations: Migration[]): Migration | undefined {
+  return allMigrations.filter((migration) => migration.timestamp < seed.timestamp).at(-1);
+}
+
+// -------------------------------------------------------------------------------------------------
+// Checksum Utilities
+// -------------------------------------------------------------------------------------------------
+
+export const CHECKSUM_COLUMN_NAME = "checksum";
+
+/**
+ * A migration or seed metadata table, and the schema it is in if one is configured.
+ */
+export interface IMetadataTable {
+  name: string;
+  schema?: string;
+}
+
+/**
+ * Returns the names of the metadata tables in the order they are dropped.
+ */
+export function getMetadataTables(
+  config: Pick<IConfig, "migrationTableName" | "migrationLockTableName" | "seedTableName" | "seedLockTableName">,
+): string[] {
+  return [config.seedTableName, config.seedLockTableName, config.migrationTableName, config.migrationLockTableName];
+}
+
+/**
+ * Returns the database scoped to the schema of the metadata table.
+ */
+function withTableSchema(db: Kysely<any>, { schema }: IMetadataTable): Kysely<any> {
+  return schema ? db.withSchema(schema) : db;
+}
+
+/**
+ * Returns the introspected metadata table, or `undefined` if it does not exist.
+ */
+async function findTable(db: Kysely<any>, { name, schema }: IMetadataTable) {
+  const tables = await db.introspection.getTables({ withInternalKyselyTables: true });
+  return tables.find((t) => t.name === name && (!schema || t.schema === schema));
+}
+
+/**
+ * Returns the name of the migration or seed in a file, or `undefined` if the file is not a
+ * migration or seed.
+ *
+ * @example
+ * getItemName("1612345678_users.ts") // "1612345678_users"
+ * getItemName("1612345678_users.up.sql") // "1612345678_users"
+ * getItemName("1612345678_users.yaml") // "1612345678_users"
+ */
+export function getItemName(file: string): string | undefined {
+  return getMigrationName(file) ?? FIXTURE_FILE_REGEX.exec(file)?.groups?.name;
+}
+
+/**
+ * Returns the name of the migration in a file, or `undefined` if the migrator doesn't read the file.
+ * These are the modules read by `FileMigrationProvider` and the plain SQL files, fixtures only hold
+ * seeds.
+ *
+ * @example
+ * getMigrationName("1612345678_users.ts") // "1612345678_users"
+ * getMigrationName("1612345678_users.yaml") // undefined
+ */
+function getMigrationName(file: string): string | undefined {
+  if (/\.(ts|mts|js|mjs)$/.test(file) && !/\.d\.m?ts$/.test(file)) return file.substring(0, file.lastIndexOf("."));
+  return getSqlItemName(file);
+}
+
+/**
+ * Returns the checksum of each migration or seed in the folder and the given subfolders, such as the
+ * environment folders of seeds, keyed by the item name. The files of a `.up.sql`/`.down.sql` pair
+ * share one checksum. Line endings are normalized so a checkout with different line endings does
+ * not count as a change.
+ *
+ * @param folder The folder containing the migration or seed files.
+ * @param subfolders The subfolders which are read, the same ones the migrator or seeder reads.
+ */
+export async function getChecksums(
+  folder: string,
+  subfolders: ReadonlyArray<string> = [],
+): Promise<Result<Record<string, string>, FileSystemError>> {
+  const entries = await ResultAsync.fromPromise(
+    fs.readdir(folder, { withFileTypes: true }),
+    FileSystemError.fromThrown("e0b7c2"),
+  );
+  if (entries.isErr()) return err(entries.error);
+  const files: string[] = [];
+  for (const entry of entries.value) {
+    if (!entry.isDirectory()) {
+      files.push(entry.name);
+      continue;
+    }
+    if (!subfolders.includes(entry.name)) continue;
+
+    const subfolderRes = await ResultAsync.fromPromise(
+      fs.readdir(path.resolve(folder, entry.name)),
+      FileSystemError.fromThrown("7b4e19"),
+    );
+    if (subfolderRes.isErr()) return err(subfolderRes.error);
+    files.push(...subfolderRes.value.map((file) => path.join(entry.name, file)));
+  }
+
+  const hashes: Record<string, Hash> = {};
+  for (const file of files.sort()) {
+    const name = getItemName(path.basename(file));
+    if (!name) continue;
+    const contents = await ResultAsync.fromPromise(
+      fs.readFile(path.resolve(folder, file), "utf-8"),
+      FileSystemError.fromThrown("5c3d1a"),
+    );
+    if (contents.isErr()) return err(contents.error);
+
+    hashes[name] ??= createHash("sha256");
+    hashes[name].update(contents.value.replace(/\r\n/g, "\n"));
+  }
+
+  return ok(Object.fromEntries(Object.entries(hashes).map(([name, hash]) => [name, hash.digest("hex")])));
+}
+
+/**
+ * Returns the checksums recorded in a metadata table, keyed by the item name. Items which were
+ * applied before checksums were recorded have a `null` checksum.
+ *
+ * @param db The database containing the metadata table.
+ * @param table The migration or seed metadata table.
+ */
+export async function getRecordedChecksums(
+  db: Kysely<any>,
+  table: IMetadataTable,
+): Promise<Result<Record<string, string | null>, KyselyError>> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      const found = await findTable(db, table);
+      if (!found || !found.columns.some((c) => c.name === CHECKSUM_COLUMN_NAME)) return {};
+
+      const rows = await withTableSchema(db, table)
+        .selectFrom(table.name)
+        .select(["name", CHECKSUM_COLUMN_NAME])
+        .execute();
+      return Object.fromEntries(rows.map((row) => [row.name as string, row[CHECKSUM_COLUMN_NAME] as string | null]));
+    })(),
+    KyselyError.fromThrown("a4e9d0"),
+  );
+}
+
+/**
+ * Records the checksum of every applied item that does not have one yet. This covers items that
+ * were just applied as well as items applied before checksums were recorded. The checksum column
+ * is added to the metadata table if it is missing.
+ *
+ * @param db The database containing the metadata table.
+ * @param table The migration or seed metadata table.
+ * @param checksums The checksums of the files, keyed by item name.
+ */
+export async function recordChecksums(
+  db: Kysely<any>,
+  table: IMetadataTable,
+  checksums: Record<string, string>,
+): Promise<Result<void, KyselyError>> {
+  return ResultAsync.fromPromise(
+    (async () => {
+      const found = await findTable(db, table);
+      if (!found) return;
+      const tableDb = withTableSchema(db, table);
+      if (!found.columns.some((c) => c.name === CHECKSUM_COLUMN_NAME))
+        await tableDb.schema.alterTable(table.name).addColumn(CHECKSUM_COLUMN_NAME, "varchar(64)").execute();
+
+      const rows = await tableDb
+        .selectFrom(table.name)
+        .select("name")
+        .where(CHECKSUM_COLUMN_NAME, "is", null)
+        .execute();
+      for (const { name } of rows) {
+        const checksum = checksums[name];
+        if (!checksum) continue;
+        await tableDb
+          .updateTable(table.name)
+          .set({ [CHECKSUM_COLUMN_NAME]: checksum })
+          .where("name", "=", name)
+          .execute();
+      }
+    })(),
+    KyselyError.fromThrown("3b8f61"),
+  );
+}
+
+/**
+ * Returns the names of applied items whose file has changed since the item was applied.
+ *
+ * @param db The database containing the metadata table.
+ * @param table The migration or seed metadata table.
+ * @param folder The folder containing the migration or seed files.
+ * @param subfolders The subfolders of `folder` which hold items, see `getChecksums`.
+ */
+export async function getDrifted(
+  db: Kysely<any>,
+  table: IMetadataTable,
+  folder: string,
+  subfolders: ReadonlyArray<string> = [],
+): Promise<Result<string[], FileSystemError | KyselyError>> {
+  const checksums = await getChecksums(folder, subfolders);
+  if (checksums.isErr()) return err(checksums.error);
+  const recorded = await getRecordedChecksums(db, table);
+  if (recorded.isErr()) return err(recorded.error);
+
+  const drifted = Object.entries(recorded.value)
+    .filter(([name, checksum]) => checksum !== null && checksums.value[name] !== undefined)
+    .filter(([name, checksum]) => checksums.value[name] !== checksum)
+    .map(([name]) => name);
+
+  return ok(drifted.sort());
+}
+
+// -------------------------------------------------------------------------------------------------
+// Schema Utilities
+// -------------------------------------------------------------------------------------------------
+
+/**
+ * Returns the dialect of the database, or `undefined` if it is not one of the built-in dialects.
+ */
+export function getDialect(db: Kysely<any>): Dialect | undefined {
+  const { adapter } = db.getExecutor();
+  if (adapter instanceof SqliteAdapter) return "sqlite";
+  else if (adapter instanceof PostgresAdapter) return "postgres";
+  else if (adapter instanceof MysqlAdapter) return "mysql";
+}
+
+/**
+ * Writes the schema snapshot, and the database types when `types.onMigrate` is set. This is called
+ * by the CLI after migrations are applied or reverted. The database has already changed by then, so
+ * a failure is reported as a warning rather than failing the command.
+ *
+ * @param kyselyx The instance that applied or reverted the migrations.
+ * @param feed The spinner of the command, used to report a failure.
+ */
+export async function updateSchemaFiles(kyselyx: Kyselyx, feed: Ora): Promise<void> {
+  let res: Result<unknown, KyselyxError> = await kyselyx.writeSchemaSnapshot();
+  if (res.isOk() && kyselyx.config.types?.onMigrate) res = await kyselyx.generateTypes();
+  if (res.isErr()) feed.warn(`Could not update the schema files: ${res.error.message}`).start();
+}
+
 // -------------------------------------------------------------------------------------------------
 // Generic Utilities
 // -------------------------------------------------------------------------------------------------
@@ -275,6 +725,117 @@ export function exitOk<T extends BaseError>(e: T): never {
   process.exit(0);
 }
 
+/**
+ * Prints the queries captured during a dry run, grouped by the migration or seed that would
+ * execute them.
+ *
+ * @param result The result of a dry run.
+ */
+export function printDryRun({ migrations, seeds, queries = {} }: IRunResult) {
+  const items = [
+    ...seeds.map(({ seedName, direction }) => ({ name: seedName, direction })),
+    ...migrations.map(({ migrationName, direction }) => ({ name: migrationName, direction })),
+  ];
+
+  for (const { name, direction } of items) {
+    console.log(`-- ${name} (${direction.toLowerCase()})`);
+    const compiledQueries = queries[name] ?? [];
+    if (compiledQueries.length === 0) console.log("-- no queries");
+    for (const { sql, parameters } of compiledQueries) {
+      console.log(`${sql};`);
+      if (parameters.length > 0) console.log(`-- parameters: ${JSON.stringify(parameters)}`);
+    }
+    console.log();
+  }
+}
+
+export interface IConfirmOptions {
+  /**
+   * Skip the confirmation prompt.
+   */
+  yes?: boolean;
+  /**
+   * Run the command even if the environment is protected.
+   */
+  allowProtected?: boolean;
+}
+
+/**
+ * Guards a destructive command. The command is refused in a protected environment unless
+ * `allowProtected` is set. Otherwise the items that will be dropped are printed and the user is
+ * asked to confirm, unless `yes` is set or there is nothing to drop.
+ *
+ * @param command The name of the command, used in messages.
+ * @param items A description of each item the command will drop.
+ * @param opts Options for confirming the command.
+ * @returns Whether the command should run.
+ */
+export async function confirmDestructive(
+  command: string,
+  items: string[],
+  opts: IConfirmOptions,
+): Promise<Result<boolean, ConfigError>> {
+  const configRes = getConfig();
+  if (configRes.isErr()) return err(configRes.error);
+  const { env, protected: isProtected } = configRes.value;
+
+  if (isProtected && !opts.allowProtected) {
+    const target = env ? `The "${env}" environment` : "The database";
+    return err(new ConfigError("d4f2a9", `${target} is protected. Pass --allow-protected to run '${command}' anyway.`));
+  }
+  if (opts.yes || items.length === 0) return ok(true);
+  if (!process.stdin.isTTY) {
+    const message = `Refusing to run '${command}' without confirmation. Pass --yes to skip the prompt.`;
+    return err(new ConfigError("6b0e1d", message));
+  }
+
+  console.log(`'${command}' will drop:`);
+  for (const item of items) console.log(`  - ${item}`);
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await rl.question("Continue? (y/N) ");
+  rl.close();
+
+  return ok(/^y(es)?$/i.test(answer.trim()));
+}
+
+/**
+ * Describes the applied seeds, and optionally the applied migrations and metadata tables, in the
+ * order they would be dropped.
+ *
+ * @param status The status of the migrations and seeds.
+ * @param include The items to describe in addition to the seeds, `tables` lists the names of the
+ * metadata tables.
+ */
+export function getDroppedItems(
+  { migrations, seeds }: IStatusResult,
+  include: { migrations?: boolean; tables?: string[] } = {},
+): string[] {
+  const items = seeds.appliedSeeds.map(({ name }) => `seed "${name}"`).reverse();
+  if (include.migrations)
+    items.push(...migrations.appliedMigrations.map(({ name }) => `migration "${name}"`).reverse());
+  if (include.tables) items.push(...include.tables.map((name) => `table "${name}"`));
+  return items;
+}
+
+/**
+ * Prints rows as a table with a header and aligned columns.
+ *
+ * @param headers The column headers.
+ * @param rows The rows to print, each with one cell per header.
+ */
+export function printTable(headers: string[], rows: string[][]) {
+  const widths = headers.map((header, idx) => Math.max(header.length, ...rows.map((row) => row[idx]?.length ?? 0)));
+  const format = (row: string[]) =>
+    row
+      .map((cell, idx) => cell.padEnd(widths[idx]!))
+      .join("   ")
+      .trimEnd();
+
+  console.log(format(headers));
+  console.log(format(widths.map((width) => "-".repeat(width))));
+  for (const row of rows) console.log(format(row));
+}
+
 /**
  * Accepts a migration or seed object and returns an object with the timestamp and label.
  *
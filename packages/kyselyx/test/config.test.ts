@@ -1,20 +1,27 @@
+import { exec } from "child_process";
 import { randomBytes } from "crypto";
 import fs from "fs-extra";
 import path from "path";
-import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { promisify } from "util";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
 import { getConfig, loadKyselyxConfig } from "../src/config.js";
 import {
   setupBadKyselyxConfigV1,
   setupBadKyselyxConfigV2,
   setupBadKyselyxConfigV3,
   setupKyselyxConfigV1,
+  setupKyselyxConfigV11,
   setupKyselyxConfigV2,
   setupKyselyxConfigV3,
   setupKyselyxConfigV4,
   setupKyselyxConfigV5,
   setupKyselyxConfigV6,
+  setupKyselyxConfigV7,
 } from "./utils/config.js";
 
+const CLI_PATH = path.resolve(__dirname, "../dist/cli.js");
+const asyncExec = promisify(exec);
+
 // Each tests will use a dynamic import via the `loadKyselyxConfig` function. If another tests has
 // a config file with the same name, but different configuration the cached config file will be
 // used. For this reason, using a unique directory for each test is necessary.
@@ -39,6 +46,8 @@ describe("Config is correctly loaded", () => {
       expect(configRes.value.configFile).toBe("kyselyx.config.ts");
       expect(configRes.value.migrationsFolder).toBe("migrations");
       expect(configRes.value.seedsFolder).toBe("seeds");
+      expect(configRes.value.migrationTableName).toBe("kyselyx_migration");
+      expect(configRes.value.seedLockTableName).toBe("kyselyx_seed_lock");
     }
   });
 
@@ -112,6 +121,170 @@ describe("Config is correctly loaded", () => {
   });
 });
 
+describe("Config environments", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  test("uses the 'development' environment when none is selected", async () => {
+    await setupKyselyxConfigV7(TEST_DIR);
+    await loadKyselyxConfig({}).then((res) => expect(res.isOk()).toBe(true));
+
+    const config = getConfig()._unsafeUnwrap();
+    expect(config.env).toBe("development");
+    expect(config.migrationsFolder).toBe(".kyselyx/migrations");
+    expect(config.seedsFolder).toBe(".kyselyx/seeds/development");
+  });
+
+  test("merges the environment selected with 'KYSELYX_ENV' over the shared options", async () => {
+    vi.stubEnv("KYSELYX_ENV", "test");
+    await setupKyselyxConfigV7(TEST_DIR);
+    await loadKyselyxConfig({}).then((res) => expect(res.isOk()).toBe(true));
+
+    const config = getConfig()._unsafeUnwrap();
+    expect(config.env).toBe("test");
+    expect(config.migrationsFolder).toBe(".kyselyx/migrations");
+    expect(config.seedsFolder).toBe(".kyselyx/seeds/test");
+    expect(config.stores.bucket).toBe("shared");
+    expect(config.stores.db).not.toBeUndefined();
+  });
+
+  test("prefers the CLI supplied 'env' over 'KYSELYX_ENV'", async () => {
+    vi.stubEnv("KYSELYX_ENV", "test");
+    await setupKyselyxConfigV7(TEST_DIR);
+    await loadKyselyxConfig({ env: "development" }).then((res) => expect(res.isOk()).toBe(true));
+
+    expect(getConfig()._unsafeUnwrap().env).toBe("development");
+  });
+
+  test("fails when the selected environment is not defined", async () => {
+    await setupKyselyxConfigV7(TEST_DIR);
+    await loadKyselyxConfig({ env: "production" }).then((res) => expect(res.isErr()).toBe(true));
+  });
+
+  test("uses only the shared options when no environments are defined", async () => {
+    await setupKyselyxConfigV6(TEST_DIR);
+    await loadKyselyxConfig({}).then((res) => expect(res.isOk()).toBe(true));
+
+    const config = getConfig()._unsafeUnwrap();
+    expect(config.env).toBeUndefined();
+    expect(config.seedsFolder).toBe(".kyselyx/seeds");
+  });
+});
+
+describe("Config overrides", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  test("reads options that are not passed from 'KYSELYX_*' environment variables", async () => {
+    vi.stubEnv("KYSELYX_CONFIG", ".random/spaghetti.ts");
+    vi.stubEnv("KYSELYX_MIGRATIONS_FOLDER", ".env/migrations");
+    vi.stubEnv("KYSELYX_SEEDS_FOLDER", ".env/seeds");
+    vi.stubEnv("KYSELYX_SEED_LOCK_TIMEOUT", "500");
+    await setupKyselyxConfigV5(TEST_DIR);
+    await loadKyselyxConfig({}).then((res) => expect(res.isOk()).toBe(true));
+
+    const config = getConfig()._unsafeUnwrap();
+    expect(config.configFile).toBe(".random/spaghetti.ts");
+    expect(config.migrationsFolder).toBe(".env/migrations");
+    expect(config.seedsFolder).toBe(".env/seeds");
+    expect(config.seedLockTimeout).toBe(500);
+  });
+
+  test("prefers CLI options over 'KYSELYX_*' environment variables", async () => {
+    vi.stubEnv("KYSELYX_MIGRATIONS_FOLDER", ".env/migrations");
+    await setupKyselyxConfigV6(TEST_DIR);
+    await loadKyselyxConfig({ migrationsFolder: ".cli/migrations" }).then((res) => expect(res.isOk()).toBe(true));
+
+    const config = getConfig()._unsafeUnwrap();
+    expect(config.migrationsFolder).toBe(".cli/migrations");
+    expect(config.seedsFolder).toBe(".kyselyx/seeds");
+  });
+
+  test("prefers 'KYSELYX_*' environment variables over the selected environment", async () => {
+    vi.stubEnv("KYSELYX_SEEDS_FOLDER", ".env/seeds");
+    await setupKyselyxConfigV7(TEST_DIR);
+    await loadKyselyxConfig({ env: "test" }).then((res) => expect(res.isOk()).toBe(true));
+
+    expect(getConfig()._unsafeUnwrap().seedsFolder).toBe(".env/seeds");
+  });
+
+  test("fails when an option is invalid", async () => {
+    vi.stubEnv("KYSELYX_SEED_LOCK_TIMEOUT", "soon");
+    await setupKyselyxConfigV1(TEST_DIR);
+    await loadKyselyxConfig({}).then((res) => expect(res.isErr()).toBe(true));
+  });
+
+  test("applies the '--config', '--migration-folder' and '--seed-folder' CLI flags", async () => {
+    await setupKyselyxConfigV5(TEST_DIR);
+    await fs.ensureDir(path.resolve(TEST_DIR, ".cli", "migrations"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, ".cli", "migrations", "1000_users.ts"),
+      `export async function up() {}\nexport async function down() {}`,
+    );
+
+    const flags = "-c .random/spaghetti.ts -m .cli/migrations -s .cli/seeds";
+    const { stdout } = await asyncExec(`node ${CLI_PATH} ${flags} db:migrate:status --json`);
+    expect(JSON.parse(stdout).migrations).toMatchObject([{ name: "1000_users", status: "pending" }]);
+  });
+});
+
+describe("Config metadata and connection overrides", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  test("reads the metadata table names and schema from 'KYSELYX_*' environment variables", async () => {
+    vi.stubEnv("KYSELYX_MIGRATION_TABLE_NAME", "env_migration");
+    vi.stubEnv("KYSELYX_MIGRATION_LOCK_TABLE_NAME", "env_migration_lock");
+    vi.stubEnv("KYSELYX_SEED_LOCK_TABLE_NAME", "env_seed_lock");
+    vi.stubEnv("KYSELYX_METADATA_SCHEMA", "env_schema");
+    await setupKyselyxConfigV11(TEST_DIR);
+    await loadKyselyxConfig({}).then((res) => expect(res.isOk()).toBe(true));
+
+    const config = getConfig()._unsafeUnwrap();
+    expect(config.migrationTableName).toBe("env_migration");
+    expect(config.migrationLockTableName).toBe("env_migration_lock");
+    expect(config.seedTableName).toBe("app_seed");
+    expect(config.seedLockTableName).toBe("env_seed_lock");
+    expect(config.metadataSchema).toBe("env_schema");
+  });
+
+  test("prefers the CLI supplied metadata table names over 'KYSELYX_*' environment variables", async () => {
+    vi.stubEnv("KYSELYX_SEED_TABLE_NAME", "env_seed");
+    await setupKyselyxConfigV11(TEST_DIR);
+    await loadKyselyxConfig({ seedTableName: "cli_seed" }).then((res) => expect(res.isOk()).toBe(true));
+
+    const config = getConfig()._unsafeUnwrap();
+    expect(config.migrationTableName).toBe("app_migration");
+    expect(config.seedTableName).toBe("cli_seed");
+  });
+
+  test("sets 'DATABASE_URL' from 'KYSELYX_DATABASE_URL' before loading the config file", async () => {
+    vi.stubEnv("DATABASE_URL", "");
+    vi.stubEnv("KYSELYX_DATABASE_URL", path.resolve(TEST_DIR, "env.db"));
+    await setupKyselyxConfigV11(TEST_DIR);
+    await loadKyselyxConfig({}).then((res) => expect(res.isOk()).toBe(true));
+
+    expect(getConfig()._unsafeUnwrap().stores.url).toBe(path.resolve(TEST_DIR, "env.db"));
+  });
+
+  test("applies the metadata table and '--database-url' CLI flags", async () => {
+    await setupKyselyxConfigV11(TEST_DIR);
+    await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "1000_users.ts"),
+      `export async function up() {}\nexport async function down() {}`,
+    );
+
+    const flags = `--database-url ${path.resolve(TEST_DIR, "cli.db")} --migration-table cli_migration`;
+    await asyncExec(`node ${CLI_PATH} ${flags} db:migrate`);
+    const status = async (flags: string) =>
+      JSON.parse((await asyncExec(`node ${CLI_PATH} ${flags} db:migrate:status --json`)).stdout).migrations;
+
+    expect(await fs.exists(path.resolve(TEST_DIR, "cli.db"))).toBe(true);
+    expect(await status(flags)).toMatchObject([{ name: "1000_users", status: "applied" }]);
+    expect(await status(`--database-url ${path.resolve(TEST_DIR, "cli.db")}`)).toMatchObject([
+      { name: "1000_users", status: "pending" },
+    ]);
+  });
+});
+
 describe("Config is not loaded", () => {
   test("when no config file is found", async () => {
     await loadKyselyxConfig({}).then((res) => expect(res.isErr()));
@@ -0,0 +1,112 @@
+import SQLite from "better-sqlite3";
+import { InsertQueryNode, Kysely, SqliteAdapter, SqliteDialect } from "kysely";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { defineFactory, Faker } from "../src/seeder/factory.js";
+
+/**
+ * An adapter for dialects which can't return the inserted rows, such as MySQL.
+ */
+class NoReturningAdapter extends SqliteAdapter {
+  override get supportsReturning(): boolean {
+    return false;
+  }
+}
+
+let database: SQLite.Database;
+let db: Kysely<any>;
+beforeEach(async () => {
+  database = new SQLite(":memory:");
+  db = new Kysely({ dialect: new SqliteDialect({ database }) });
+  await db.schema
+    .createTable("users")
+    .addColumn("id", "integer", (col) => col.primaryKey().autoIncrement())
+    .addColumn("username", "text", (col) => col.notNull())
+    .addColumn("github_id", "integer")
+    .execute();
+  await db.schema
+    .createTable("user_roles")
+    .addColumn("user_id", "integer", (col) => col.notNull())
+    .addColumn("role", "text", (col) => col.notNull())
+    .execute();
+});
+
+afterEach(() => db.destroy());
+
+describe("class 'Faker'", () => {
+  test("produces the same values from the same seed", () => {
+    const values = (f: Faker) => [f.username(), f.int(1, 100), f.uuid(), f.date().toISOString(), f.sentence(3)];
+    expect(values(new Faker(42))).toEqual(values(new Faker(42)));
+    expect(values(new Faker(42))).not.toEqual(values(new Faker(43)));
+    expect(new Faker("users").uuid()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+});
+
+describe("function 'defineFactory'", () => {
+  test("builds reproducible rows with overrides", () => {
+    const users = defineFactory("users", (f, i) => ({ username: `${f.username()}_${i}`, github_id: f.int() }));
+    const first = users.buildMany(3);
+    expect(users.reset().buildMany(3)).toEqual(first);
+    expect(users.build({ github_id: 1 }).github_id).toBe(1);
+    expect(defineFactory("users", (f) => ({ id: f.int() }), { seed: 1 }).build()).not.toEqual(
+      defineFactory("users", (f) => ({ id: f.int() })).build(),
+    );
+  });
+
+  test("inserts rows in batches along with the rows of their relations", async () => {
+    const roles = defineFactory("user_roles", (f) => ({ role: f.pick(["admin", "member"]) }));
+    const users = defineFactory<{ id?: number; username: string; github_id: number }>("users", (f) => ({
+      username: f.username(),
+      github_id: f.int(),
+    })).hasMany(roles, 2, (user) => ({ user_id: user.id }));
+
+    const inserts: string[] = [];
+    const logged = db.withPlugin({
+      transformQuery: ({ node }) => {
+        if (InsertQueryNode.is(node)) inserts.push(node.into!.table.identifier.name);
+        return node;
+      },
+      transformResult: async ({ result }) => result,
+    });
+
+    const created = await users.createMany({ db: logged }, 600);
+    expect(created).toHaveLength(600);
+    expect(created.at(-1)!.id).toBe(600);
+    expect(
+      await db
+        .selectFrom("users")
+        .select((eb) => eb.fn.countAll().as("count"))
+        .executeTakeFirst(),
+    ).toEqual({
+      count: 600,
+    });
+    const userRoles = await db.selectFrom("user_roles").selectAll().where("user_id", "=", 600).execute();
+    expect(userRoles).toHaveLength(2);
+    // 600 users and 1200 roles, in batches of 499 rows
+    expect(inserts).toEqual(["users", "users", "user_roles", "user_roles", "user_roles"]);
+  });
+
+  test("refuses relations which need values set by the database when the dialect can't return them", async () => {
+    const dialect = new SqliteDialect({ database });
+    const noReturning = new Kysely<any>({
+      dialect: {
+        createAdapter: () => new NoReturningAdapter(),
+        createDriver: () => dialect.createDriver(),
+        createIntrospector: (db) => dialect.createIntrospector(db),
+        createQueryCompiler: () => dialect.createQueryCompiler(),
+      },
+    });
+    const roles = defineFactory("user_roles", (f) => ({ role: f.pick(["admin", "member"]) }));
+
+    const users = defineFactory<{ id?: number; username: string }>("users", (f) => ({ username: f.username() }));
+    await expect(
+      users.hasMany(roles, 2, (user) => ({ user_id: user.id })).createMany({ db: noReturning }, 3),
+    ).rejects.toThrow(/reference values of "users" set by the database/);
+    expect(await db.selectFrom("users").selectAll().execute()).toEqual([]);
+
+    // the ids are known when the factory sets them
+    const withIds = defineFactory("users", (f, i) => ({ id: i + 10, username: f.username() }));
+    await withIds.hasMany(roles, 2, (user) => ({ user_id: user.id })).createMany({ db: noReturning }, 3);
+    const userIds = await db.selectFrom("user_roles").select("user_id").orderBy("user_id").execute();
+    expect(userIds.map((it) => it.user_id)).toEqual([10, 10, 11, 11, 12, 12]);
+  });
+});
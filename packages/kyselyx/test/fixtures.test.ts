@@ -0,0 +1,64 @@
+import { describe, expect, test } from "vitest";
+import { parseFixture } from "../src/seeder/fixtures.js";
+
+describe("function 'parseFixture'", () => {
+  test("parses JSON and YAML files mapping table names to rows", () => {
+    const rows = { users: [{ id: 1, name: "Alice" }], posts: [{ id: 1, tags: ["a", "b"], meta: { draft: true } }] };
+    expect(parseFixture("1000_data.json", JSON.stringify(rows))).toEqual(rows);
+
+    const yaml = [
+      `# the users`,
+      `users:`,
+      `  - id: 1`,
+      `    name: Alice # a comment`,
+      `posts:`,
+      `- id: 1`,
+      `  tags: [a, "b"]`,
+      `  meta: { draft: true }`,
+    ].join("\n");
+    expect(parseFixture("1000_data.yaml", yaml)).toEqual(rows);
+  });
+
+  test("parses YAML block scalars, anchors and merge keys", () => {
+    const yaml = [
+      `users:`,
+      `  - &member`,
+      `    id: 1`,
+      `    role: member`,
+      `    bio: |`,
+      `      Line one`,
+      `      Line two`,
+      `  - <<: *member`,
+      `    id: 2`,
+      `    bio: >-`,
+      `      Folded`,
+      `      text`,
+    ].join("\n");
+    expect(parseFixture("1000_data.yaml", yaml).users).toEqual([
+      { id: 1, role: "member", bio: "Line one\nLine two\n" },
+      { id: 2, role: "member", bio: "Folded text" },
+    ]);
+  });
+
+  test("throws naming the file and line of invalid YAML", () => {
+    const yaml = [`users:`, `  - id: 1`, `    name: "Alice`].join("\n");
+    expect(() => parseFixture("1000_data.yaml", yaml)).toThrow(
+      /^Fixture "1000_data.yaml" is not valid YAML at line 3: /,
+    );
+  });
+
+  test("parses a CSV file as the rows of the table named by its label", () => {
+    const csv = `id,name,bio\r\n1,Alice,"Says ""hi"", often"\r\n2,Bob,\r\n`;
+    expect(parseFixture("1000_users.csv", csv)).toEqual({
+      users: [
+        { id: "1", name: "Alice", bio: 'Says "hi", often' },
+        { id: "2", name: "Bob", bio: null },
+      ],
+    });
+  });
+
+  test("throws when the file does not map table names to rows", () => {
+    expect(() => parseFixture("1000_data.json", `[{ "id": 1 }]`)).toThrow();
+    expect(() => parseFixture("1000_data.yml", `users: 1`)).toThrow();
+  });
+});
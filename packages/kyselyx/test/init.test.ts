@@ -0,0 +1,63 @@
+import { exec } from "child_process";
+import { randomBytes } from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { promisify } from "util";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { exitFailure } from "../src/utils.js";
+import { setupKyselyxConfigV1 } from "./utils/config.js";
+
+const CLI_PATH = path.resolve(__dirname, "../dist/cli.js");
+const asyncExec = promisify(exec);
+
+let TEST_DIR: string;
+beforeEach(async () => {
+  TEST_DIR = path.resolve(__dirname, `test-dir-${randomBytes(4).toString("hex")}`);
+  await fs.rm(TEST_DIR, { recursive: true, force: true });
+  await fs.mkdir(TEST_DIR);
+  process.chdir(TEST_DIR);
+});
+
+afterEach(() => fs.rm(TEST_DIR, { recursive: true, force: true }));
+
+describe("function 'init'", () => {
+  test("creates a TypeScript SQLite project with the defaults", async () => {
+    await fs.writeJson(path.resolve(TEST_DIR, "package.json"), {
+      name: "app",
+      type: "module",
+      scripts: { "db:migrate": "custom" },
+    });
+
+    // create the project
+    await asyncExec(`node ${CLI_PATH} init`).catch(exitFailure);
+
+    // check the project files were created
+    expect(await fs.readFile(path.resolve(TEST_DIR, "kyselyx.config.ts"), "utf-8")).toMatch(/new SqliteDialect/);
+    expect(await fs.exists(path.resolve(TEST_DIR, "migrations"))).toBe(true);
+    expect(await fs.exists(path.resolve(TEST_DIR, "seeds"))).toBe(true);
+    const { scripts } = await fs.readJson(path.resolve(TEST_DIR, "package.json"));
+    expect(scripts["db:migrate"]).toBe("custom");
+    expect(scripts["db:seed"]).toBe("kyselyx db:seed");
+
+    // check the config can be used
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    const { stdout } = await asyncExec(`node ${CLI_PATH} db:migrate`).catch(exitFailure);
+    expect(stdout).toMatch(/Applied 1 migration\(s\)/);
+  });
+
+  test("writes a JavaScript config to the supplied location", async () => {
+    await asyncExec(`node ${CLI_PATH} init --dialect postgres --location .config/kyselyx.config.js`).catch(exitFailure);
+
+    const contents = await fs.readFile(path.resolve(TEST_DIR, ".config", "kyselyx.config.js"), "utf-8");
+    expect(contents).toMatch(/new PostgresDialect/);
+    expect(contents).toMatch(/@type \{import\("kyselyx"\)\.IConfigFile/);
+  });
+
+  test("refuses to overwrite an existing config", async () => {
+    await setupKyselyxConfigV1(TEST_DIR);
+
+    const res = await asyncExec(`node ${CLI_PATH} init`).catch((e) => e);
+    expect(res.code).toBe(1);
+    expect(res.stderr).toMatch(/A Kyselyx configuration file already exists: kyselyx.config.ts/);
+  });
+});
@@ -0,0 +1,1360 @@
+import SQLite from "better-sqlite3";
+import { randomBytes } from "crypto";
+import fs from "fs-extra";
+import { Kysely, sql, SqliteDialect } from "kysely";
+import path from "path";
+import "tsx/esm"; // This MUST be imported for the tests to run properly!
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { ConfigError, MigrationError, NotFoundError } from "../src/errors.js";
+import { Kyselyx } from "../src/kyselyx.js";
+
+// Each test will dynamically import the migration and seed files, if another test has a file with
+// the same name the cached module will be used. For this reason, using a unique directory for each
+// test is necessary.
+let TEST_DIR: string;
+let db: Kysely<any>;
+beforeEach(async () => {
+  TEST_DIR = path.resolve(__dirname, `test-dir-${randomBytes(4).toString("hex")}`);
+  await fs.rm(TEST_DIR, { recursive: true, force: true });
+  await fs.mkdir(TEST_DIR);
+  process.chdir(TEST_DIR);
+  db = new Kysely({ dialect: new SqliteDialect({ database: new SQLite(path.resolve(TEST_DIR, "test.db")) }) });
+});
+
+afterEach(async () => {
+  await db.destroy();
+  await fs.rm(TEST_DIR, { recursive: true, force: true });
+});
+
+/**
+ * Writes a migration that creates (and drops) the table with the label's name.
+ */
+async function writeMigration(timestamp: number, label: string) {
+  const contents = [
+    `export async function up(db) { await db.schema.createTable("${label}").addColumn("id", "integer").execute(); }`,
+    `export async function down(db) { await db.schema.dropTable("${label}").execute(); }`,
+  ];
+  await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+  await fs.writeFile(path.resolve(TEST_DIR, "migrations", `${timestamp}_${label}.ts`), contents.join("\n"));
+}
+
+/**
+ * Writes a seed that inserts (and deletes) a row into the table with the label's name.
+ */
+async function writeSeed(timestamp: number, label: string) {
+  const contents = [
+    `export async function up({ db }) { await db.insertInto("${label}").values({ id: ${timestamp} }).execute(); }`,
+    `export async function down({ db }) { await db.deleteFrom("${label}").where("id", "=", ${timestamp}).execute(); }`,
+  ];
+  await fs.ensureDir(path.resolve(TEST_DIR, "seeds"));
+  await fs.writeFile(path.resolve(TEST_DIR, "seeds", `${timestamp}_${label}.ts`), contents.join("\n"));
+}
+
+describe("constructor", () => {
+  test("merges the selected environment over the shared options", async () => {
+    const testDb = new Kysely<any>({ dialect: new SqliteDialect({ database: new SQLite(":memory:") }) });
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({
+      stores: { db },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      env: "test",
+      environments: { test: { stores: { db: testDb } } },
+    });
+    expect(kyselyx.config.env).toBe("test");
+    await kyselyx.migrate();
+
+    expect((await testDb.introspection.getTables()).map((it) => it.name)).toContain("users");
+    expect((await db.introspection.getTables()).map((it) => it.name)).not.toContain("users");
+    await testDb.destroy();
+  });
+
+  test("throws a ConfigError when the environment is not defined", () => {
+    const props = { stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" };
+    expect(() => new Kyselyx({ ...props, env: "production", environments: { test: {} } })).toThrow(ConfigError);
+  });
+});
+
+describe("method 'migrate'", () => {
+  test("applies all migrations and returns the results", async () => {
+    await writeMigration(1000, "users");
+    await writeMigration(2000, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    const res = await kyselyx.migrate();
+
+    expect(res.isOk()).toBe(true);
+    expect(res._unsafeUnwrap().migrations.map((it) => [it.migrationName, it.status])).toEqual([
+      ["1000_users", "Success"],
+      ["2000_posts", "Success"],
+    ]);
+  });
+
+  test("returns a NotFoundError when the migration does not exist", async () => {
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    const res = await kyselyx.migrate("comments");
+
+    expect(res._unsafeUnwrapErr()).toBeInstanceOf(NotFoundError);
+  });
+
+  test("returns an error naming the failed migration", async () => {
+    await writeMigration(1000, "users");
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "2000_users_again.ts"),
+      `export async function up(db) { await db.schema.createTable("users").addColumn("id", "integer").execute(); }\nexport async function down() {}`,
+    );
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    const res = await kyselyx.migrate();
+
+    expect(res._unsafeUnwrapErr().message).toMatch(/Failed to apply migration "2000_users_again"/);
+  });
+});
+
+describe("plain SQL files", () => {
+  test("runs '.up.sql'/'.down.sql' pairs and files with '-- up'/'-- down' markers", async () => {
+    await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+    await fs.ensureDir(path.resolve(TEST_DIR, "seeds"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "1000_users.up.sql"),
+      "create table users (id integer, name text);\n-- a comment; with a semicolon\ncreate table posts (id integer);",
+    );
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "1000_users.down.sql"),
+      "drop table posts;\ndrop table users;",
+    );
+    await writeMigration(2000, "comments");
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "seeds", "1500_users.sql"),
+      "-- up\ninsert into users values (1, 'a;b');\n-- down\ndelete from users where id = 1;",
+    );
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    await kyselyx.seed();
+
+    const status = (await kyselyx.status())._unsafeUnwrap();
+    expect(status.migrations.appliedMigrations.map((it) => it.name)).toEqual(["1000_users", "2000_comments"]);
+    expect(status.seeds.appliedSeeds.map((it) => it.name)).toEqual(["1500_users"]);
+    expect(await db.selectFrom("users").selectAll().execute()).toEqual([{ id: 1, name: "a;b" }]);
+
+    // a changed file is reported as drift
+    await fs.appendFile(path.resolve(TEST_DIR, "migrations", "1000_users.down.sql"), "\n-- changed");
+    const drifted = (await kyselyx.status())._unsafeUnwrap().migrations.driftedMigrations;
+    expect(drifted.map((it) => it.name)).toEqual(["1000_users"]);
+
+    await kyselyx.undoAll();
+    expect((await db.introspection.getTables()).map((it) => it.name)).not.toContain("users");
+  });
+
+  test("refuses a '.sql' file without markers instead of recording it as applied", async () => {
+    await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+    await fs.writeFile(path.resolve(TEST_DIR, "migrations", "1000_users.sql"), "create table users (id integer);");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    const res = await kyselyx.migrate();
+    expect(res._unsafeUnwrapErr().message).toMatch(/1000_users\.sql" has no "-- up" or "-- down" marker line/);
+    expect((await db.introspection.getTables()).map((it) => it.name)).not.toContain("kyselyx_migration");
+  });
+
+  test("refuses a '.sql' file with statements before its first marker", async () => {
+    await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+    await fs.ensureDir(path.resolve(TEST_DIR, "seeds"));
+    await writeMigration(1000, "users");
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "seeds", "1500_users.sql"),
+      "-- users\ninsert into users values (1);\n--up:\n-- down\ndelete from users;",
+    );
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    const res = await kyselyx.seed();
+    expect(res._unsafeUnwrapErr().message).toMatch(/1500_users\.sql" has statements before its first/);
+  });
+});
+
+describe("fixture seeds", () => {
+  test("inserts the rows of a data file and deletes exactly those rows when reverted", async () => {
+    await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "1000_users.ts"),
+      [
+        `export async function up(db) {`,
+        `  await db.schema`,
+        `    .createTable("users")`,
+        `    .addColumn("id", "integer", (col) => col.primaryKey())`,
+        `    .addColumn("name", "text")`,
+        `    .addColumn("is_admin", "boolean")`,
+        `    .execute();`,
+        `}`,
+      ].join("\n"),
+    );
+    await fs.ensureDir(path.resolve(TEST_DIR, "seeds"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "seeds", "1500_users.csv"),
+      "id,name,is_admin\n1,Alice,true\n2,Bob,false\n",
+    );
+    await fs.writeFile(path.resolve(TEST_DIR, "seeds", "1600_more.yaml"), "users:\n  - id: 3\n    name: Carol\n");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    const res = await kyselyx.seed();
+    expect(res._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["1500_users", "1600_more"]);
+    expect(await db.selectFrom("users").selectAll().orderBy("id").execute()).toEqual([
+      { id: 1, name: "Alice", is_admin: 1 },
+      { id: 2, name: "Bob", is_admin: 0 },
+      { id: 3, name: "Carol", is_admin: null },
+    ]);
+
+    await db.insertInto("users").values({ id: 4, name: "Dave" }).execute();
+    await kyselyx.undoSeeds("1500_users");
+    expect(await db.selectFrom("users").select("id").execute()).toEqual([{ id: 4 }]);
+  });
+});
+
+describe("seed dependencies", () => {
+  test("runs seeds after the seeds they depend on and reverts them in reverse order", async () => {
+    await writeMigration(1000, "users");
+    await writeMigration(1100, "roles");
+    await writeSeed(1500, "users");
+    await writeSeed(1600, "roles");
+    await fs.appendFile(path.resolve(TEST_DIR, "seeds", "1500_users.ts"), `\nexport const dependsOn = ["roles"];`);
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    const res = await kyselyx.seed();
+    expect(res._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["1600_roles", "1500_users"]);
+
+    const undoRes = await kyselyx.undoAllSeeds();
+    expect(undoRes._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["1500_users", "1600_roles"]);
+  });
+
+  test("only groups seeds by the migrations the migrator runs", async () => {
+    await writeMigration(1000, "users");
+    await writeMigration(1100, "roles");
+    await writeSeed(1500, "users");
+    await writeSeed(1600, "roles");
+    await fs.appendFile(path.resolve(TEST_DIR, "seeds", "1500_users.ts"), `\nexport const dependsOn = ["roles"];`);
+    await fs.writeFile(path.resolve(TEST_DIR, "migrations", "1550_notes.json"), "{}");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    const res = await kyselyx.seed();
+    expect(res._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["1600_roles", "1500_users"]);
+  });
+
+  test("returns an error for circular dependencies", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeSeed(1600, "roles");
+    await fs.appendFile(path.resolve(TEST_DIR, "seeds", "1500_users.ts"), `\nexport const dependsOn = ["roles"];`);
+    await fs.appendFile(path.resolve(TEST_DIR, "seeds", "1600_roles.ts"), `\nexport const dependsOn = ["users"];`);
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    expect((await kyselyx.seed())._unsafeUnwrapErr().message).toMatch(
+      /circular dependency: 1500_users -> 1600_roles -> 1500_users/,
+    );
+  });
+
+  test("returns an error for dependencies bound to a later migration", async () => {
+    await writeMigration(1000, "users");
+    await writeMigration(2000, "posts");
+    await writeSeed(1500, "users");
+    await writeSeed(2500, "posts");
+    await fs.appendFile(path.resolve(TEST_DIR, "seeds", "1500_users.ts"), `\nexport const dependsOn = ["posts"];`);
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    expect((await kyselyx.seed())._unsafeUnwrapErr().message).toMatch(
+      /"1500_users" can't depend on "2500_posts" which is bound to a later migration/,
+    );
+  });
+});
+
+describe("environment-scoped seeds", () => {
+  test("skips seeds of other environments without recording them", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeSeed(1700, "users");
+    await fs.appendFile(path.resolve(TEST_DIR, "seeds", "1700_users.ts"), `\nexport const environments = ["test"];`);
+    await writeSeed(1600, "users");
+    await fs.move(
+      path.resolve(TEST_DIR, "seeds", "1600_users.ts"),
+      path.resolve(TEST_DIR, "seeds", "development", "1600_users.ts"),
+    );
+
+    const environments = { development: {}, test: {} };
+    const kyselyx = new Kyselyx({ stores: { db }, environments, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    const res = await kyselyx.seed();
+    expect(res._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["1500_users", "1600_users"]);
+    expect(await db.selectFrom("users").select("id").orderBy("id").execute()).toEqual([{ id: 1500 }, { id: 1600 }]);
+
+    const { seeds } = (await kyselyx.status())._unsafeUnwrap();
+    expect(seeds.appliedSeeds.map((it) => it.name)).toEqual(["1500_users", "1600_users"]);
+    expect(seeds.skippedSeeds.map((it) => it.name)).toEqual(["1700_users"]);
+
+    const testKyselyx = new Kyselyx({
+      stores: { db },
+      env: "test",
+      environments,
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+    });
+    const testRes = await testKyselyx.seed();
+    expect(testRes._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["1700_users"]);
+  });
+
+  test("only reads the subfolders of configured environments and skips their seeds without an environment", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeSeed(1600, "users");
+    await fs.move(
+      path.resolve(TEST_DIR, "seeds", "1600_users.ts"),
+      path.resolve(TEST_DIR, "seeds", "test", "1600_users.ts"),
+    );
+    await writeSeed(1700, "users");
+    await fs.move(
+      path.resolve(TEST_DIR, "seeds", "1700_users.ts"),
+      path.resolve(TEST_DIR, "seeds", "helpers", "1700_users.ts"),
+    );
+
+    // "development" is not configured, so no environment is selected
+    const kyselyx = new Kyselyx({
+      stores: { db },
+      environments: { test: {} },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+    });
+    expect(kyselyx.config.env).toBeUndefined();
+    await kyselyx.migrate();
+    const res = await kyselyx.seed();
+    expect(res._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["1500_users"]);
+
+    const { seeds } = (await kyselyx.status())._unsafeUnwrap();
+    expect(seeds.allSeeds.map((it) => it.name)).toEqual(["1500_users"]);
+    expect(seeds.skippedSeeds.map((it) => it.name)).toEqual(["1600_users"]);
+
+    // files in other subfolders are not part of the checksums either
+    await fs.writeFile(path.resolve(TEST_DIR, "seeds", "helpers", "1500_users.ts"), "export const unused = 1;");
+    expect((await kyselyx.status())._unsafeUnwrap().seeds.driftedSeeds).toEqual([]);
+
+    // a config resolved by the CLI passes the names of its environments instead
+    const testKyselyx = new Kyselyx({
+      stores: { db },
+      env: "test",
+      environmentNames: ["test"],
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+    });
+    const testRes = await testKyselyx.seed();
+    expect(testRes._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["1600_users"]);
+  });
+});
+
+describe("method 'baseline'", () => {
+  test("records the migrations as applied without running them", async () => {
+    await db.schema.createTable("users").addColumn("id", "integer").execute();
+    await writeMigration(1000, "users");
+    await writeMigration(2000, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    expect((await kyselyx.baseline("nothing"))._unsafeUnwrapErr()).toBeInstanceOf(NotFoundError);
+    const res = await kyselyx.baseline("users");
+    expect(res._unsafeUnwrap().migrations.map((it) => it.migrationName)).toEqual(["1000_users"]);
+    expect((await kyselyx.baseline("users"))._unsafeUnwrap().migrations).toEqual([]);
+
+    const migrateRes = await kyselyx.migrate();
+    expect(migrateRes._unsafeUnwrap().migrations.map((it) => it.migrationName)).toEqual(["2000_posts"]);
+  });
+
+  test("records the seeds as applied without running them", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeMigration(2000, "posts");
+    await writeSeed(2500, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate("users");
+    expect((await kyselyx.baselineSeeds("2500_posts")).isErr()).toBe(true);
+    const res = await kyselyx.baselineSeeds("1500_users");
+
+    expect(res._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["1500_users"]);
+    expect(await db.selectFrom("users").selectAll().execute()).toEqual([]);
+    const status = (await kyselyx.status())._unsafeUnwrap();
+    expect(status.seeds.appliedSeeds.map((it) => it.name)).toEqual(["1500_users"]);
+  });
+});
+
+describe("method 'seed'", () => {
+  test("rolls back the data of every seed in the run when a seed fails", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeSeed(1600, "users");
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "seeds", "1700_broken.ts"),
+      `export async function up({ db }) { await db.insertInto("missing").values({ id: 1 }).execute(); }\nexport async function down() {}`,
+    );
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    const res = await kyselyx.seed();
+
+    expect(res._unsafeUnwrapErr().message).toMatch(/Failed to apply seed "1700_broken"/);
+    expect(await db.selectFrom("users").selectAll().execute()).toEqual([]);
+    expect((await kyselyx.status())._unsafeUnwrap().seeds.appliedSeeds).toEqual([]);
+  });
+});
+
+describe("seed lock", () => {
+  test("fails naming the lock holder when the lock is not released in time", async () => {
+    await writeMigration(1000, "users");
+    await fs.ensureDir(path.resolve(TEST_DIR, "seeds"));
+
+    const kyselyx = new Kyselyx({
+      stores: { db },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      seedLockTimeout: 100,
+    });
+    await kyselyx.setup();
+    await writeSeed(1500, "users");
+    await db
+      .updateTable("kyselyx_seed_lock")
+      .set({
+        is_locked: 1,
+        locked_by: "other-host (pid 1)",
+        locked_at: "2024-01-01T00:00:00.000Z",
+        expires_at: new Date(Date.now() + 60_000).toISOString(),
+      })
+      .execute();
+    const res = await kyselyx.seed();
+
+    expect(res._unsafeUnwrapErr().message).toMatch(/held by other-host \(pid 1\) since 2024-01-01T00:00:00.000Z/);
+    expect((await kyselyx.status())._unsafeUnwrap().seeds.appliedSeeds).toEqual([]);
+  });
+
+  test("takes over an expired lock left by a crashed run", async () => {
+    await writeMigration(1000, "users");
+    await fs.ensureDir(path.resolve(TEST_DIR, "seeds"));
+
+    const kyselyx = new Kyselyx({
+      stores: { db },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      seedLockTimeout: 100,
+    });
+    await kyselyx.setup();
+    await writeSeed(1500, "users");
+    await db
+      .updateTable("kyselyx_seed_lock")
+      .set({
+        is_locked: 1,
+        locked_by: "other-host (pid 1)",
+        locked_at: "2024-01-01T00:00:00.000Z",
+        expires_at: "2024-01-01T00:00:30.000Z",
+      })
+      .execute();
+    const res = await kyselyx.seed();
+
+    expect(res.isOk()).toBe(true);
+    expect((await kyselyx.status())._unsafeUnwrap().seeds.appliedSeeds.map((it) => it.name)).toEqual(["1500_users"]);
+  });
+
+  test("is released after a run", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.setup();
+
+    expect(await db.selectFrom("kyselyx_seed_lock").select(["is_locked", "locked_by"]).execute()).toEqual([
+      { is_locked: 0, locked_by: null },
+    ]);
+  });
+});
+
+describe("method 'undo'", () => {
+  test("reverts the last migration and the seeds bound to it", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeMigration(2000, "posts");
+    await writeSeed(2500, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    expect((await kyselyx.setup()).isOk()).toBe(true);
+    const res = await kyselyx.undo();
+
+    expect(res._unsafeUnwrap().migrations.map((it) => it.migrationName)).toEqual(["2000_posts"]);
+    expect(res._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual(["2500_posts"]);
+  });
+
+  test("does not apply pending seeds bound to the remaining migrations", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeMigration(2000, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    const res = await kyselyx.undo();
+
+    expect(res._unsafeUnwrap().seeds).toEqual([]);
+    expect(await db.selectFrom("users").selectAll().execute()).toEqual([]);
+  });
+
+  test("returns empty results when there is nothing to rollback", async () => {
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    const res = await kyselyx.undo();
+
+    expect(res._unsafeUnwrap()).toEqual({ migrations: [], seeds: [] });
+  });
+});
+
+describe("method 'redo'", () => {
+  test("re-applies the last migration and the seeds reverted with it", async () => {
+    await writeMigration(1000, "users");
+    await writeMigration(2000, "posts");
+    await writeSeed(2500, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.setup();
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "2000_posts.ts"),
+      `export async function up(db) { await db.schema.createTable("posts").addColumn("id", "integer").execute(); }\nexport async function down(db) { await db.schema.dropTable("posts").execute(); }`,
+    );
+    const { reverted, applied } = (await kyselyx.redo())._unsafeUnwrap();
+
+    expect(reverted.migrations.map((it) => it.migrationName)).toEqual(["2000_posts"]);
+    expect(applied.migrations.map((it) => it.migrationName)).toEqual(["2000_posts"]);
+    expect(applied.seeds.map((it) => it.seedName)).toEqual(["2500_posts"]);
+    expect(await db.selectFrom("posts").selectAll().execute()).toEqual([{ id: 2500 }]);
+    expect((await kyselyx.status())._unsafeUnwrap().migrations.driftedMigrations).toEqual([]);
+  });
+
+  test("redoes all migrations from the named migration without applying pending ones", async () => {
+    await writeMigration(1000, "users");
+    await writeMigration(2000, "posts");
+    await writeMigration(3000, "comments");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate("posts");
+    const { applied } = (await kyselyx.redo("users"))._unsafeUnwrap();
+
+    expect(applied.migrations.map((it) => it.migrationName)).toEqual(["1000_users", "2000_posts"]);
+    const { unappliedMigrations } = (await kyselyx.status())._unsafeUnwrap().migrations;
+    expect(unappliedMigrations.map((it) => it.name)).toEqual(["3000_comments"]);
+  });
+
+  test("refuses to revert anything when another applied migration has drifted", async () => {
+    await writeMigration(1000, "users");
+    await writeMigration(2000, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    await fs.appendFile(path.resolve(TEST_DIR, "migrations", "1000_users.ts"), "\n// modified");
+
+    expect((await kyselyx.redo())._unsafeUnwrapErr().message).toMatch(/"1000_users" have been modified/);
+    const { appliedMigrations } = (await kyselyx.status())._unsafeUnwrap().migrations;
+    expect(appliedMigrations.map((it) => it.name)).toEqual(["1000_users", "2000_posts"]);
+  });
+});
+
+describe("method 'status'", () => {
+  test("lists applied and unapplied migrations and seeds", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeMigration(2000, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate("users");
+    await kyselyx.seed();
+    const { migrations, seeds } = (await kyselyx.status())._unsafeUnwrap();
+
+    expect(migrations.appliedMigrations.map((it) => it.name)).toEqual(["1000_users"]);
+    expect(migrations.unappliedMigrations.map((it) => it.name)).toEqual(["2000_posts"]);
+    expect(seeds.appliedSeeds.map((it) => it.name)).toEqual(["1500_users"]);
+  });
+
+  test("lists no seeds without a seeds folder, but returns the errors of the seeds", async () => {
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    expect((await kyselyx.status())._unsafeUnwrap().seeds.allSeeds).toEqual([]);
+
+    await fs.ensureDir(path.resolve(TEST_DIR, "seeds"));
+    await fs.writeFile(path.resolve(TEST_DIR, "seeds", "1500_users.sql"), "insert into users values (1);");
+    expect((await kyselyx.status())._unsafeUnwrapErr().message).toMatch(/1500_users\.sql" has no "-- up"/);
+  });
+});
+
+describe("method 'reset'", () => {
+  test("purges and reapplies all migrations and seeds", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.setup();
+    const res = await kyselyx.reset();
+
+    expect(res._unsafeUnwrap().purged.seeds.map((it) => it.seedName)).toEqual(["1500_users"]);
+    expect(res._unsafeUnwrap().applied.migrations.map((it) => it.migrationName)).toEqual(["1000_users"]);
+  });
+
+  test("refuses to run in a protected environment unless 'allowProtected' is passed", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+
+    const kyselyx = new Kyselyx({
+      stores: { db },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      env: "production",
+      environments: { production: { protected: true } },
+    });
+    await kyselyx.setup();
+
+    for (const res of [
+      await kyselyx.reset(),
+      await kyselyx.purge(),
+      await kyselyx.undoAll(),
+      await kyselyx.undoAllSeeds(),
+    ]) {
+      expect(res._unsafeUnwrapErr().message).toMatch(/The "production" environment is protected/);
+    }
+    expect((await kyselyx.status())._unsafeUnwrap().seeds.appliedSeeds.map((it) => it.name)).toEqual(["1500_users"]);
+
+    const res = await kyselyx.reset({ allowProtected: true });
+    expect(res._unsafeUnwrap().purged.seeds.map((it) => it.seedName)).toEqual(["1500_users"]);
+  });
+});
+
+describe("method 'lint'", () => {
+  test("reports risky operations in pending migrations without running them", async () => {
+    await writeMigration(1000, "users");
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "2000_drop_users.ts"),
+      `export async function up(db) { await db.schema.dropTable("users").execute(); }`,
+    );
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "3000_posts.ts"),
+      `export async function up(db) { await db.schema.createTable("posts").addColumn("id", "integer").execute(); }`,
+    );
+
+    const res = (await kyselyx.lint())._unsafeUnwrap();
+
+    expect(res.migrations).toEqual(["2000_drop_users", "3000_posts"]);
+    expect(res.violations.map((it) => [it.migrationName, it.rule, it.severity])).toEqual([
+      ["2000_drop_users", "drop-table", "error"],
+    ]);
+    expect(res.failed).toBe(true);
+    expect((await db.introspection.getTables()).map((it) => it.name)).toContain("users");
+  });
+
+  test("applies suppression comments, rule severities and the 'failOn' threshold", async () => {
+    await writeMigration(1000, "users");
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "2000_alter_users.ts"),
+      [
+        `// kyselyx-lint-disable drop-column`,
+        `export async function up(db) {`,
+        `  await db.schema.alterTable("users").dropColumn("id").execute();`,
+        `  await db.schema.alterTable("users").addColumn("name", "text", (col) => col.notNull()).execute();`,
+        `}`,
+      ].join("\n"),
+    );
+
+    const kyselyx = new Kyselyx({
+      stores: { db },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      lint: { rules: { "not-null-without-default": "warning" } },
+    });
+    const res = (await kyselyx.lint())._unsafeUnwrap();
+    expect(res.suppressed.map((it) => it.rule)).toEqual(["drop-column"]);
+    expect(res.violations.map((it) => [it.rule, it.severity])).toEqual([["not-null-without-default", "warning"]]);
+    expect(res.failed).toBe(false);
+
+    expect((await kyselyx.lint({ failOn: "warning" }))._unsafeUnwrap().failed).toBe(true);
+  });
+});
+
+describe("method 'verify'", () => {
+  let scratchDb: Kysely<any>;
+  beforeEach(() => {
+    scratchDb = new Kysely({
+      dialect: new SqliteDialect({ database: new SQLite(path.resolve(TEST_DIR, "scratch.db")) }),
+    });
+  });
+  afterEach(() => scratchDb.destroy());
+
+  test("reports every migration and seed as reversible and leaves the scratch database empty", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeMigration(2000, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds", scratchDb });
+    const res = (await kyselyx.verify())._unsafeUnwrap();
+
+    expect(res.migrations).toEqual([
+      { name: "1000_users", reversible: true, problems: [] },
+      { name: "2000_posts", reversible: true, problems: [] },
+    ]);
+    expect(res.seeds).toEqual([{ name: "1500_users", reversible: true, problems: [] }]);
+    expect(await scratchDb.introspection.getTables({ withInternalKyselyTables: true })).toEqual([]);
+    expect(await db.introspection.getTables({ withInternalKyselyTables: true })).toEqual([]);
+  });
+
+  test("reports migrations and seeds whose 'down' does not restore the database", async () => {
+    await writeMigration(1000, "users");
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "2000_users_name.ts"),
+      [
+        `export async function up(db) { await db.schema.alterTable("users").addColumn("name", "text").execute(); }`,
+        `export async function down() {}`,
+      ].join("\n"),
+    );
+    await fs.ensureDir(path.resolve(TEST_DIR, "seeds"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "seeds", "3000_users.ts"),
+      [
+        `export async function up({ db }) { await db.insertInto("users").values({ id: 1 }).execute(); }`,
+        `export async function down() {}`,
+      ].join("\n"),
+    );
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds", scratchDb });
+    const res = (await kyselyx.verify())._unsafeUnwrap();
+
+    expect(res.migrations.map((it) => [it.name, it.reversible])).toEqual([
+      ["1000_users", true],
+      ["2000_users_name", false],
+    ]);
+    expect(res.migrations[1]!.problems[0]).toBe('Column "users.name" is unexpected.');
+    expect(res.seeds).toEqual([]);
+  });
+
+  test("reports seeds whose 'down' does not restore the row counts", async () => {
+    await writeMigration(1000, "users");
+    await fs.ensureDir(path.resolve(TEST_DIR, "seeds"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "seeds", "2000_users.ts"),
+      [
+        `export async function up({ db }) { await db.insertInto("users").values({ id: 1 }).execute(); }`,
+        `export async function down() {}`,
+      ].join("\n"),
+    );
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds", scratchDb });
+    const res = (await kyselyx.verify())._unsafeUnwrap();
+
+    expect(res.seeds).toEqual([
+      {
+        name: "2000_users",
+        reversible: false,
+        problems: [
+          'Table "users" has 1 row(s), expected 0.',
+          'After re-applying: Table "users" has 2 row(s), expected 1.',
+        ],
+      },
+    ]);
+  });
+
+  test("returns a ConfigError when no 'scratchDb' is configured", async () => {
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    expect((await kyselyx.verify())._unsafeUnwrapErr()).toBeInstanceOf(ConfigError);
+  });
+});
+
+describe("schema snapshot", () => {
+  test("writes the tables and columns without the metadata tables", async () => {
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    const res = await kyselyx.writeSchemaSnapshot();
+
+    expect(res._unsafeUnwrap()).toBe("schema.snapshot.json");
+    expect(await fs.readJson(path.resolve(TEST_DIR, "schema.snapshot.json"))).toEqual({
+      tables: [
+        {
+          name: "users",
+          isView: false,
+          columns: [
+            {
+              name: "id",
+              dataType: "INTEGER",
+              isNullable: true,
+              hasDefaultValue: false,
+              defaultValue: null,
+              isAutoIncrementing: false,
+            },
+          ],
+          primaryKey: [],
+          uniqueConstraints: [],
+          indexes: [],
+          foreignKeys: [],
+        },
+      ],
+    });
+  });
+
+  test("records primary keys, unique constraints, indexes, foreign keys and defaults", async () => {
+    await db.schema
+      .createTable("users")
+      .addColumn("id", "integer", (col) => col.primaryKey().autoIncrement())
+      .addColumn("email", "text", (col) => col.notNull().unique())
+      .addColumn("role", "text", (col) => col.notNull().defaultTo("member"))
+      .execute();
+    await db.schema
+      .createTable("posts")
+      .addColumn("id", "integer", (col) => col.primaryKey())
+      .addColumn("user_id", "integer", (col) => col.references("users.id").onDelete("cascade"))
+      .execute();
+    await db.schema.createIndex("posts_user_id_idx").on("posts").column("user_id").execute();
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.writeSchemaSnapshot();
+    const { tables } = await fs.readJson(path.resolve(TEST_DIR, "schema.snapshot.json"));
+
+    expect(tables[0]).toMatchObject({
+      name: "posts",
+      primaryKey: ["id"],
+      uniqueConstraints: [],
+      indexes: [{ name: "posts_user_id_idx", columns: ["user_id"], isUnique: false, hasExpressions: false }],
+      foreignKeys: [
+        {
+          name: null,
+          columns: ["user_id"],
+          referencedTable: "users",
+          referencedColumns: ["id"],
+          onDelete: "cascade",
+          onUpdate: "no action",
+        },
+      ],
+    });
+    expect(tables[1]).toMatchObject({
+      name: "users",
+      primaryKey: ["id"],
+      uniqueConstraints: [{ name: null, columns: ["email"] }],
+      indexes: [],
+      foreignKeys: [],
+    });
+    expect(tables[1].columns.find((it: any) => it.name === "role").defaultValue).toBe("'member'");
+  });
+
+  test("is not written when 'schemaSnapshot' is false", async () => {
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({
+      stores: { db },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      schemaSnapshot: false,
+    });
+    await kyselyx.migrate();
+
+    expect((await kyselyx.writeSchemaSnapshot())._unsafeUnwrap()).toBeNull();
+    expect(fs.existsSync(path.resolve(TEST_DIR, "schema.snapshot.json"))).toBe(false);
+  });
+
+  test("is checked against the schema the migrations produce on the scratch database", async () => {
+    const scratchDb = new Kysely<any>({
+      dialect: new SqliteDialect({ database: new SQLite(path.resolve(TEST_DIR, "scratch.db")) }),
+    });
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds", scratchDb });
+    await kyselyx.migrate();
+    await kyselyx.writeSchemaSnapshot();
+    expect((await kyselyx.checkSchemaSnapshot())._unsafeUnwrap()).toEqual([]);
+
+    // add a migration without updating the snapshot
+    await writeMigration(2000, "posts");
+    expect((await kyselyx.checkSchemaSnapshot())._unsafeUnwrap()).toEqual(['Table "posts" is unexpected.']);
+    expect(await scratchDb.introspection.getTables({ withInternalKyselyTables: true })).toEqual([]);
+    await scratchDb.destroy();
+  });
+});
+
+describe("method 'generateTypes'", () => {
+  test("writes the Database interface of the migrated schema", async () => {
+    await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "1000_user_accounts.ts"),
+      [
+        `export async function up(db) {`,
+        `  await db.schema`,
+        `    .createTable("user_accounts")`,
+        `    .addColumn("id", "integer", (col) => col.primaryKey().autoIncrement())`,
+        `    .addColumn("name", "text", (col) => col.notNull())`,
+        `    .addColumn("is_admin", "boolean", (col) => col.notNull().defaultTo(false))`,
+        `    .addColumn("created_at", "datetime")`,
+        `    .addColumn("data", "blob")`,
+        `    .execute();`,
+        `}`,
+      ].join("\n"),
+    );
+
+    const kyselyx = new Kyselyx({
+      stores: { db },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      types: { outFile: "src/db.ts" },
+    });
+    await kyselyx.migrate();
+    const res = await kyselyx.generateTypes();
+
+    expect(res._unsafeUnwrap()).toBe("src/db.ts");
+    expect(await fs.readFile(path.resolve(TEST_DIR, "src/db.ts"), "utf-8")).toBe(
+      [
+        `// This file is generated by "kyselyx generate:types", do not edit it by hand.`,
+        `import type { Generated } from "kysely";`,
+        ``,
+        `export interface UserAccounts {`,
+        `  created_at: string | null;`,
+        `  data: Buffer | null;`,
+        `  id: Generated<number>;`,
+        `  is_admin: Generated<number>;`,
+        `  name: string;`,
+        `}`,
+        ``,
+        `export interface Database {`,
+        `  user_accounts: UserAccounts;`,
+        `}`,
+        ``,
+      ].join("\n"),
+    );
+  });
+});
+
+describe("method 'generateMigration'", () => {
+  test("writes the changes since the schema snapshot with option 'fromDiff'", async () => {
+    await writeMigration(1000, "users");
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    await kyselyx.writeSchemaSnapshot();
+    expect((await kyselyx.generateMigration("nothing", { fromDiff: true }))._unsafeUnwrapErr()).toBeInstanceOf(
+      NotFoundError,
+    );
+
+    // change the database by hand
+    await db.schema
+      .createTable("posts")
+      .addColumn("title", "text", (col) => col.notNull())
+      .execute();
+    await db.schema.alterTable("users").addColumn("name", "text").execute();
+    const fileName = (await kyselyx.generateMigration("posts", { fromDiff: true }))._unsafeUnwrap();
+
+    const contents = await fs.readFile(path.resolve(TEST_DIR, "migrations", fileName), "utf-8");
+    expect(contents).toContain('.createTable("posts")\n    .addColumn("title", sql`TEXT`, (col) => col.notNull())');
+    expect(contents).toContain('.alterTable("users")\n    .addColumn("name", sql`TEXT`)');
+    expect(contents).toContain('await db.schema.dropTable("posts").execute();');
+    expect(contents).toContain('await db.schema.alterTable("users").dropColumn("name").execute();');
+
+    // the migration reproduces the changes on another database, and reverts them
+    const other = new Kysely<any>({
+      dialect: new SqliteDialect({ database: new SQLite(path.resolve(TEST_DIR, "other.db")) }),
+    });
+    const otherKyselyx = new Kyselyx({
+      stores: { db: other },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      schemaSnapshot: "other.snapshot.json",
+    });
+    await otherKyselyx.migrate();
+    await kyselyx.writeSchemaSnapshot();
+    await otherKyselyx.writeSchemaSnapshot();
+    expect(await fs.readJson(path.resolve(TEST_DIR, "other.snapshot.json"))).toEqual(
+      await fs.readJson(path.resolve(TEST_DIR, "schema.snapshot.json")),
+    );
+    await otherKyselyx.undo();
+    await otherKyselyx.writeSchemaSnapshot();
+    const { tables } = await fs.readJson(path.resolve(TEST_DIR, "other.snapshot.json"));
+    expect(tables.map((it: any) => [it.name, it.columns.map((c: any) => c.name)])).toEqual([["users", ["id"]]]);
+    await other.destroy();
+  });
+});
+
+describe("method 'generateMigration' with constraints", () => {
+  test("writes primary keys, foreign keys, unique constraints, indexes and defaults", async () => {
+    await writeMigration(1000, "users");
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    await kyselyx.writeSchemaSnapshot();
+
+    // change the database by hand
+    await db.schema
+      .createTable("authors")
+      .addColumn("id", "integer", (col) => col.primaryKey().autoIncrement())
+      .addColumn("email", "text", (col) => col.notNull().unique())
+      .addColumn("role", "text", (col) => col.notNull().defaultTo("member"))
+      .execute();
+    await db.schema
+      .createTable("books")
+      .addColumn("id", "integer", (col) => col.primaryKey())
+      .addColumn("author_id", "integer", (col) => col.references("authors.id").onDelete("cascade"))
+      .execute();
+    await db.schema.createIndex("books_author_id_idx").on("books").column("author_id").execute();
+    const fileName = (await kyselyx.generateMigration("books", { fromDiff: true }))._unsafeUnwrap();
+
+    const contents = await fs.readFile(path.resolve(TEST_DIR, "migrations", fileName), "utf-8");
+    expect(contents).not.toMatch(/TODO/);
+    expect(contents.indexOf('.createTable("authors")')).toBeLessThan(contents.indexOf('.createTable("books")'));
+    expect(contents).toContain('.addColumn("id", sql`INTEGER`, (col) => col.primaryKey().autoIncrement())');
+    expect(contents).toContain(".addColumn(\"role\", sql`TEXT`, (col) => col.notNull().defaultTo(sql`('member')`))");
+    expect(contents).toContain('.createIndex("books_author_id_idx")');
+
+    // the migration reproduces the schema on another database, and reverts it
+    const other = new Kysely<any>({
+      dialect: new SqliteDialect({ database: new SQLite(path.resolve(TEST_DIR, "other.db")) }),
+    });
+    const otherKyselyx = new Kyselyx({
+      stores: { db: other },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      schemaSnapshot: "other.snapshot.json",
+    });
+    await otherKyselyx.migrate();
+    await kyselyx.writeSchemaSnapshot();
+    await otherKyselyx.writeSchemaSnapshot();
+    expect(await fs.readJson(path.resolve(TEST_DIR, "other.snapshot.json"))).toEqual(
+      await fs.readJson(path.resolve(TEST_DIR, "schema.snapshot.json")),
+    );
+    expect((await otherKyselyx.undo())._unsafeUnwrap().migrations.map((it) => it.status)).toEqual(["Success"]);
+    const tables = (await other.introspection.getTables()).map((it) => it.name);
+    expect(tables.filter((it) => !it.startsWith("kyselyx_"))).toEqual(["users"]);
+    await other.destroy();
+  });
+
+  test("fails listing the changes which can't be written as a migration", async () => {
+    await writeMigration(1000, "users");
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    await kyselyx.writeSchemaSnapshot();
+
+    await db.schema.createView("user_ids").as(db.selectFrom("users").select("id")).execute();
+    await db.schema
+      .createIndex("users_id_idx")
+      .on("users")
+      .expression(sql`id + 1`)
+      .execute();
+    const res = await kyselyx.generateMigration("views", { fromDiff: true });
+
+    expect(res._unsafeUnwrapErr()).toBeInstanceOf(MigrationError);
+    expect(res._unsafeUnwrapErr().message).toMatch(/- View "user_ids" has changed/);
+    expect(res._unsafeUnwrapErr().message).toMatch(/- Index "users_id_idx" on table "users" is partial/);
+    expect(await fs.readdir(path.resolve(TEST_DIR, "migrations"))).toEqual(["1000_users.ts"]);
+  });
+});
+
+describe("method 'squash'", () => {
+  test("replaces the migrations with a baseline that existing databases record as applied", async () => {
+    const openDb = (name: string) =>
+      new Kysely<any>({ dialect: new SqliteDialect({ database: new SQLite(path.resolve(TEST_DIR, name)) }) });
+    const [scratchDb, oldDb, newDb] = [openDb("scratch.db"), openDb("old.db"), openDb("new.db")];
+    const create = (db: Kysely<any>) =>
+      new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds", scratchDb });
+    await writeMigration(1000, "users");
+    await writeMigration(2000, "posts");
+    await writeMigration(3000, "comments");
+
+    const kyselyx = create(db);
+    await kyselyx.migrate("1000_users");
+    expect((await kyselyx.squash("2000_posts"))._unsafeUnwrapErr()).toBeInstanceOf(MigrationError);
+    await kyselyx.migrate();
+    await create(oldDb).migrate("2000_posts");
+
+    const res = await kyselyx.squash("2000_posts");
+    expect(res._unsafeUnwrap()).toEqual({ migration: "1000_baseline", squashed: ["1000_users", "2000_posts"] });
+    expect(await fs.readdir(path.resolve(TEST_DIR, "migrations"))).toEqual(["1000_baseline.ts", "3000_comments.ts"]);
+    const applied = async (kyselyx: Kyselyx) =>
+      (await kyselyx.status())._unsafeUnwrap().migrations.appliedMigrations.map((it) => it.name);
+    expect(await applied(kyselyx)).toEqual(["1000_baseline", "3000_comments"]);
+
+    // a database which ran the original migrations continues from the baseline
+    const oldKyselyx = create(oldDb);
+    expect((await oldKyselyx.migrate())._unsafeUnwrap().migrations.map((it) => it.migrationName)).toEqual([
+      "3000_comments",
+    ]);
+    expect(await applied(oldKyselyx)).toEqual(["1000_baseline", "3000_comments"]);
+
+    // a new database creates the schema from the baseline
+    const newKyselyx = create(newDb);
+    await newKyselyx.migrate();
+    expect((await newDb.introspection.getTables()).map((it) => it.name).sort()).toEqual([
+      "comments",
+      "kyselyx_migration",
+      "kyselyx_migration_lock",
+      "posts",
+      "users",
+    ]);
+
+    await Promise.all([scratchDb, oldDb, newDb].map((it) => it.destroy()));
+  });
+
+  test("writes a baseline with the primary keys, foreign keys, unique indexes and defaults", async () => {
+    const openDb = (name: string) =>
+      new Kysely<any>({ dialect: new SqliteDialect({ database: new SQLite(path.resolve(TEST_DIR, name)) }) });
+    const [scratchDb, newDb] = [openDb("scratch.db"), openDb("new.db")];
+    await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "1000_users.ts"),
+      [
+        `export async function up(db) {`,
+        `  await db.schema`,
+        `    .createTable("users")`,
+        `    .addColumn("id", "integer", (col) => col.primaryKey().autoIncrement())`,
+        `    .addColumn("email", "text", (col) => col.notNull())`,
+        `    .addColumn("role", "text", (col) => col.notNull().defaultTo("member"))`,
+        `    .execute();`,
+        `  await db.schema.createIndex("users_email_idx").unique().on("users").column("email").execute();`,
+        `}`,
+        `export async function down(db) {`,
+        `  await db.schema.dropTable("users").execute();`,
+        `}`,
+      ].join("\n"),
+    );
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "2000_posts.ts"),
+      [
+        `export async function up(db) {`,
+        `  await db.schema`,
+        `    .createTable("posts")`,
+        `    .addColumn("id", "integer", (col) => col.primaryKey())`,
+        `    .addColumn("user_id", "integer", (col) => col.notNull().references("users.id").onDelete("cascade"))`,
+        `    .execute();`,
+        `}`,
+        `export async function down(db) {`,
+        `  await db.schema.dropTable("posts").execute();`,
+        `}`,
+      ].join("\n"),
+    );
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds", scratchDb });
+    await kyselyx.migrate();
+    expect((await kyselyx.squash("2000_posts"))._unsafeUnwrap().migration).toBe("1000_baseline");
+
+    // a new database created from the baseline has the same schema
+    const newKyselyx = new Kyselyx({
+      stores: { db: newDb },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      schemaSnapshot: "new.snapshot.json",
+    });
+    await newKyselyx.migrate();
+    await kyselyx.writeSchemaSnapshot();
+    await newKyselyx.writeSchemaSnapshot();
+    expect(await fs.readJson(path.resolve(TEST_DIR, "new.snapshot.json"))).toEqual(
+      await fs.readJson(path.resolve(TEST_DIR, "schema.snapshot.json")),
+    );
+    const { tables } = await fs.readJson(path.resolve(TEST_DIR, "new.snapshot.json"));
+    expect(tables.map((it: any) => [it.name, it.primaryKey, it.foreignKeys.length, it.indexes.length])).toEqual([
+      ["posts", ["id"], 1, 0],
+      ["users", ["id"], 0, 1],
+    ]);
+    expect(await scratchDb.introspection.getTables({ withInternalKyselyTables: true })).toEqual([]);
+
+    await Promise.all([scratchDb, newDb].map((it) => it.destroy()));
+  });
+
+  test("keeps the migrations when the schema can't be written as a baseline", async () => {
+    const scratchDb = new Kysely<any>({
+      dialect: new SqliteDialect({ database: new SQLite(path.resolve(TEST_DIR, "scratch.db")) }),
+    });
+    await writeMigration(1000, "users");
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "2000_user_ids.ts"),
+      [
+        `export async function up(db) {`,
+        `  await db.schema.createView("user_ids").as(db.selectFrom("users").select("id")).execute();`,
+        `}`,
+        `export async function down(db) {`,
+        `  await db.schema.dropView("user_ids").execute();`,
+        `}`,
+      ].join("\n"),
+    );
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds", scratchDb });
+    await kyselyx.migrate();
+    const res = await kyselyx.squash("2000_user_ids");
+
+    expect(res._unsafeUnwrapErr().message).toMatch(/- View "user_ids" has changed/);
+    expect(await fs.readdir(path.resolve(TEST_DIR, "migrations"))).toEqual(["1000_users.ts", "2000_user_ids.ts"]);
+    await scratchDb.destroy();
+  });
+});
+
+describe("metadata tables", () => {
+  test("uses the configured table names and drops them when purging", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+
+    const kyselyx = new Kyselyx({
+      stores: { db },
+      migrationsFolder: "migrations",
+      seedsFolder: "seeds",
+      migrationTableName: "app_migration",
+      migrationLockTableName: "app_migration_lock",
+      seedTableName: "app_seed",
+      seedLockTableName: "app_seed_lock",
+    });
+    await kyselyx.setup();
+
+    const tableNames = async () =>
+      (await db.introspection.getTables({ withInternalKyselyTables: true })).map((it) => it.name).sort();
+    expect(await tableNames()).toEqual(["app_migration", "app_migration_lock", "app_seed", "app_seed_lock", "users"]);
+    const status = (await kyselyx.status())._unsafeUnwrap();
+    expect(status.migrations.appliedMigrations.map((it) => it.name)).toEqual(["1000_users"]);
+    expect(status.seeds.appliedSeeds.map((it) => it.name)).toEqual(["1500_users"]);
+
+    await kyselyx.purge();
+    expect(await tableNames()).toEqual([]);
+  });
+});
+
+describe("option 'dryRun'", () => {
+  test("captures the SQL of pending migrations without applying them", async () => {
+    await writeMigration(1000, "users");
+    await writeMigration(2000, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate("users");
+    const { migrations, queries } = (await kyselyx.migrate(undefined, { dryRun: true }))._unsafeUnwrap();
+
+    expect(migrations).toEqual([{ migrationName: "2000_posts", direction: "Up", status: "NotExecuted" }]);
+    expect(queries?.["2000_posts"]?.map((it) => it.sql)).toEqual(['create table "posts" ("id" integer)']);
+    const { appliedMigrations } = (await kyselyx.status())._unsafeUnwrap().migrations;
+    expect(appliedMigrations.map((it) => it.name)).toEqual(["1000_users"]);
+  });
+
+  test("captures the SQL of reverted seeds and migrations without reverting them", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "seeds", "1500_users.ts"),
+      `export async function up() {}\nexport async function down({ db }) { await db.deleteFrom("users").where("id", "=", 1).execute(); }`,
+    );
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.setup();
+    const { migrations, seeds, queries } = (await kyselyx.undo(undefined, { dryRun: true }))._unsafeUnwrap();
+
+    expect(seeds.map((it) => [it.seedName, it.direction])).toEqual([["1500_users", "Down"]]);
+    expect(migrations.map((it) => [it.migrationName, it.direction])).toEqual([["1000_users", "Down"]]);
+    expect(queries?.["1500_users"]?.[0]?.sql).toBe('delete from "users" where "id" = ?');
+    expect(queries?.["1500_users"]?.[0]?.parameters).toEqual([1]);
+    expect(queries?.["1000_users"]?.[0]?.sql).toBe('drop table "users"');
+    const { migrations: status } = (await kyselyx.status())._unsafeUnwrap();
+    expect(status.appliedMigrations.map((it) => it.name)).toEqual(["1000_users"]);
+  });
+});
+
+describe("option 'step'", () => {
+  test("applies and reverts the given number of migrations", async () => {
+    await writeMigration(1000, "users");
+    await writeMigration(2000, "posts");
+    await writeMigration(3000, "comments");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    const applied = (await kyselyx.migrate(undefined, { step: 2 }))._unsafeUnwrap();
+    expect(applied.migrations.map((it) => it.migrationName)).toEqual(["1000_users", "2000_posts"]);
+
+    await kyselyx.migrate();
+    const reverted = (await kyselyx.undo(undefined, { step: 2 }))._unsafeUnwrap();
+    expect(reverted.migrations.map((it) => it.migrationName)).toEqual(["3000_comments", "2000_posts"]);
+  });
+
+  test("reverts the seeds bound to the reverted migrations", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeMigration(2000, "posts");
+    await writeSeed(2500, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.setup();
+    const res = (await kyselyx.undo(undefined, { step: 5 }))._unsafeUnwrap();
+
+    expect(res.migrations.map((it) => it.migrationName)).toEqual(["2000_posts", "1000_users"]);
+    expect(res.seeds.map((it) => it.seedName)).toEqual(["2500_posts", "1500_users"]);
+  });
+
+  test("only applies seeds up to the last applied migration", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+    await writeSeed(1600, "users");
+    await writeMigration(2000, "posts");
+    await writeSeed(2500, "posts");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate("users");
+    expect((await kyselyx.seed(undefined, { step: 1 }))._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual([
+      "1500_users",
+    ]);
+    expect((await kyselyx.seed(undefined, { step: 5 }))._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual([
+      "1600_users",
+    ]);
+    expect((await kyselyx.undoSeeds(undefined, { step: 2 }))._unsafeUnwrap().seeds.map((it) => it.seedName)).toEqual([
+      "1600_users",
+      "1500_users",
+    ]);
+  });
+
+  test("rejects a step combined with a name", async () => {
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+
+    expect((await kyselyx.migrate("users", { step: 1 }))._unsafeUnwrapErr()).toBeInstanceOf(ConfigError);
+    expect((await kyselyx.migrate(undefined, { step: 0 }))._unsafeUnwrapErr()).toBeInstanceOf(ConfigError);
+  });
+});
+
+describe("checksum drift", () => {
+  test("flags applied migrations and seeds whose files were modified", async () => {
+    await writeMigration(1000, "users");
+    await writeSeed(1500, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.setup();
+    await fs.appendFile(path.resolve(TEST_DIR, "migrations", "1000_users.ts"), "\n// modified");
+    await fs.appendFile(path.resolve(TEST_DIR, "seeds", "1500_users.ts"), "\n// modified");
+    const { migrations, seeds } = (await kyselyx.status())._unsafeUnwrap();
+
+    expect(migrations.driftedMigrations.map((it) => it.name)).toEqual(["1000_users"]);
+    expect(seeds.driftedSeeds.map((it) => it.name)).toEqual(["1500_users"]);
+  });
+
+  test("refuses to migrate when an applied migration has drifted unless 'allowDrift' is set", async () => {
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    await fs.appendFile(path.resolve(TEST_DIR, "migrations", "1000_users.ts"), "\n// modified");
+    await writeMigration(2000, "posts");
+
+    expect((await kyselyx.migrate())._unsafeUnwrapErr().message).toMatch(/"1000_users" have been modified/);
+    const res = await kyselyx.migrate(undefined, { allowDrift: true });
+    expect(res._unsafeUnwrap().migrations.map((it) => it.migrationName)).toEqual(["2000_posts"]);
+  });
+
+  test("ignores line ending differences", async () => {
+    await writeMigration(1000, "users");
+
+    const kyselyx = new Kyselyx({ stores: { db }, migrationsFolder: "migrations", seedsFolder: "seeds" });
+    await kyselyx.migrate();
+    const file = path.resolve(TEST_DIR, "migrations", "1000_users.ts");
+    await fs.writeFile(file, (await fs.readFile(file, "utf-8")).replace(/\n/g, "\r\n"));
+
+    expect((await kyselyx.status())._unsafeUnwrap().migrations.driftedMigrations).toEqual([]);
+  });
+});
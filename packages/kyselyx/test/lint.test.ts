@@ -0,0 +1,80 @@
+import {
+  DummyDriver,
+  Kysely,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  sql,
+  SqliteAdapter,
+  SqliteIntrospector,
+  SqliteQueryCompiler,
+} from "kysely";
+import { describe, expect, test } from "vitest";
+import { getSuppressedRules, LINT_RULES, lintQuery } from "../src/lint.js";
+
+// The queries are only compiled, so neither database is ever connected to.
+const sqlite = new Kysely<any>({
+  dialect: {
+    createAdapter: () => new SqliteAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: (db) => new SqliteIntrospector(db),
+    createQueryCompiler: () => new SqliteQueryCompiler(),
+  },
+});
+const postgres = new Kysely<any>({
+  dialect: {
+    createAdapter: () => new PostgresAdapter(),
+    createDriver: () => new DummyDriver(),
+    createIntrospector: (db) => new PostgresIntrospector(db),
+    createQueryCompiler: () => new PostgresQueryCompiler(),
+  },
+});
+
+describe("function 'lintQuery'", () => {
+  test("reports dropped tables and columns", () => {
+    expect(lintQuery(sqlite.schema.dropTable("users").compile()).map((it) => it.rule)).toEqual(["drop-table"]);
+    expect(lintQuery(sqlite.schema.alterTable("users").dropColumn("name").compile())).toEqual([
+      { rule: "drop-column", message: 'Drops column "name" from "users".' },
+    ]);
+  });
+
+  test("reports NOT NULL columns added without a default", () => {
+    const notNull = sqlite.schema.alterTable("users").addColumn("name", "text", (col) => col.notNull());
+    const withDefault = sqlite.schema
+      .alterTable("users")
+      .addColumn("name", "text", (col) => col.notNull().defaultTo(""));
+
+    expect(lintQuery(notNull.compile()).map((it) => it.rule)).toEqual(["not-null-without-default"]);
+    expect(lintQuery(withDefault.compile())).toEqual([]);
+  });
+
+  test("reports column type changes", () => {
+    const query = postgres.schema.alterTable("users").alterColumn("age", (col) => col.setDataType("bigint"));
+    expect(lintQuery(query.compile()).map((it) => it.rule)).toEqual(["alter-column-type"]);
+  });
+
+  test("doesn't ask for CONCURRENTLY on Postgres, which can't run in the migration transaction", () => {
+    const query = postgres.schema.createIndex("users_name_idx").on("users").column("name").compile();
+    expect(lintQuery(query)).toEqual([]);
+
+    const raw = sql`create index users_name_idx on users (name)`.compile(postgres);
+    expect(lintQuery(raw)).toEqual([]);
+    expect(Object.keys(LINT_RULES)).not.toContain("non-concurrent-index");
+  });
+
+  test("checks the text of raw SQL", () => {
+    const query = sql`alter table users drop column name`.compile(sqlite);
+    expect(lintQuery(query).map((it) => it.rule)).toEqual(["drop-column"]);
+  });
+});
+
+describe("function 'getSuppressedRules'", () => {
+  test("returns the listed rules, or every rule when none are listed", () => {
+    expect([...getSuppressedRules("// kyselyx-lint-disable drop-column, alter-column-type")]).toEqual([
+      "drop-column",
+      "alter-column-type",
+    ]);
+    expect(getSuppressedRules("/* kyselyx-lint-disable */").size).toBe(4);
+    expect(getSuppressedRules("export async function up() {}").size).toBe(0);
+  });
+});
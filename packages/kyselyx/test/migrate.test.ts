@@ -7,7 +7,12 @@ import { promisify } from "util";
 import { afterEach, beforeEach, describe, expect, test } from "vitest";
 import { loadKyselyxConfig } from "../src/config.js";
 import { exitFailure, getMigrations, getMigrator, getSeeder, getSeeds } from "../src/utils.js";
-import { setupKyselyxConfigV1 } from "./utils/config.js";
+import {
+  setupKyselyxConfigV1,
+  setupKyselyxConfigV10,
+  setupKyselyxConfigV8,
+  setupKyselyxConfigV9,
+} from "./utils/config.js";
 
 const CLI_PATH = path.resolve(__dirname, "../dist/cli.js");
 const asyncExec = promisify(exec);
@@ -227,6 +232,28 @@ describe("function 'migrate'", () => {
 
     expect(stdout).toMatch(/Could not find migration to migrate to./);
   });
+
+  test("successfully applies the number of migrations given with '--step'", async () => {
+    await setupKyselyxConfigV1(TEST_DIR);
+
+    // create migrations
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} generate:migration sample`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} generate:migration peanut_butter`).catch(exitFailure);
+
+    // apply two migrations
+    await asyncExec(`node ${CLI_PATH} db:migrate --step 2`).catch(exitFailure);
+
+    // load kyselyx config, get migrations
+    await loadKyselyxConfig({});
+    const migrator = getMigrator().match((i) => i, exitFailure);
+    const { appliedMigrations } = (await getMigrations(migrator)).match((i) => i, exitFailure);
+
+    // confirm only the first two migrations were applied
+    expect(appliedMigrations.find((m) => /\d+_users/.test(m.name))).not.toBeUndefined();
+    expect(appliedMigrations.find((m) => /\d+_sample/.test(m.name))).not.toBeUndefined();
+    expect(appliedMigrations.find((m) => /\d+_peanut_butter/.test(m.name))).toBeUndefined();
+  });
 });
 
 describe("function 'undo'", () => {
@@ -419,7 +446,7 @@ describe("function 'undoAll'", () => {
     expect(appliedSeeds.find((m) => /\d+_peanut_butter/.test(m.name))).not.toBeUndefined();
 
     // drop all migrations
-    await asyncExec(`node ${CLI_PATH} db:migrate:undo:all`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:migrate:undo:all --yes`).catch(exitFailure);
     ({ appliedMigrations } = (await getMigrations(migrator)).match((i) => i, exitFailure));
     ({ appliedSeeds } = (await getSeeds(seeder)).match((i) => i, exitFailure));
     expect(appliedMigrations.find((m) => /\d+_users/.test(m.name))).toBeUndefined();
@@ -434,3 +461,184 @@ describe("function 'undoAll'", () => {
     expect(stdout).toMatch(/No migrations to rollback./);
   });
 });
+
+describe("confirmation of 'undoAll'", () => {
+  test("refuses to revert all migrations without '--yes' when not run interactively", async () => {
+    await setupKyselyxConfigV1(TEST_DIR);
+
+    // create & apply a migration
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:migrate`).catch(exitFailure);
+
+    // try to drop all migrations
+    const res = await asyncExec(`node ${CLI_PATH} db:migrate:undo:all`).catch((e) => e);
+    expect(res.code).toBe(1);
+    expect(res.stderr).toMatch(/Refusing to run 'db:migrate:undo:all' without confirmation. Pass --yes/);
+  });
+
+  test("refuses to revert all migrations in a protected environment without '--allow-protected'", async () => {
+    await setupKyselyxConfigV8(TEST_DIR);
+
+    // create & apply a migration
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:migrate --env production`).catch(exitFailure);
+
+    // try to drop all migrations
+    const res = await asyncExec(`node ${CLI_PATH} db:migrate:undo:all --env production --yes`).catch((e) => e);
+    expect(res.code).toBe(1);
+    expect(res.stderr).toMatch(/The "production" environment is protected. Pass --allow-protected/);
+
+    // drop all migrations with the override
+    const { stdout } = await asyncExec(
+      `node ${CLI_PATH} db:migrate:undo:all --env production --yes --allow-protected`,
+    ).catch(exitFailure);
+    expect(stdout).toMatch(/Rolled back 1 migration\(s\)/);
+  });
+});
+
+describe("function 'redo'", () => {
+  test("successfully reverts and re-applies a modified migration and its seeds", async () => {
+    await setupKyselyxConfigV1(TEST_DIR);
+
+    // create migrations & seeds
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} generate:seed users`).catch(exitFailure);
+
+    // apply all migrations & seeds, then modify the migration
+    await asyncExec(`node ${CLI_PATH} db:setup`).catch(exitFailure);
+    const [migration] = await fs.readdir(path.resolve(TEST_DIR, "migrations"));
+    await fs.appendFile(path.resolve(TEST_DIR, "migrations", migration!), "\n// modified");
+
+    // redo the migration
+    const { stdout } = await asyncExec(`node ${CLI_PATH} db:migrate:redo`).catch(exitFailure);
+    expect(stdout).toMatch(/Redid 1 migration\(s\) up to "\d+_users" and 1 seed\(s\)./);
+
+    // confirm the migration & seed are applied and the migration is no longer modified
+    const { stdout: status } = await asyncExec(`node ${CLI_PATH} db:seed:status --json`).catch(exitFailure);
+    expect(JSON.parse(status).seeds[0]).toMatchObject({ label: "users", status: "applied" });
+    const { stdout: migrations } = await asyncExec(`node ${CLI_PATH} db:migrate:status --json`).catch(exitFailure);
+    expect(JSON.parse(migrations).migrations[0]).toMatchObject({ label: "users", status: "applied", modified: false });
+  });
+});
+
+describe("function 'verify'", () => {
+  test("exits with a non-zero code when a migration is not reversible", async () => {
+    await setupKyselyxConfigV9(TEST_DIR);
+
+    // create a reversible migration
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    const { stdout } = await asyncExec(`node ${CLI_PATH} db:migrate:verify`).catch(exitFailure);
+    expect(stdout).toMatch(/Verified 1 migration\(s\) and seed\(s\) are reversible./);
+
+    // create a migration with an empty 'down'
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "9999999999999_posts.ts"),
+      `export async function up(db) { await db.schema.createTable("posts").addColumn("id", "integer").execute(); }`,
+    );
+    const res = await asyncExec(`node ${CLI_PATH} db:migrate:verify`).catch((e) => e);
+    expect(res.code).toBe(1);
+    expect(res.stdout).toMatch(/migration\s+9999999999999_posts\s+Table "posts" is unexpected./);
+  });
+});
+
+describe("function 'checkSchema'", () => {
+  test("fails when the schema snapshot written by 'db:migrate' is out of date", async () => {
+    await setupKyselyxConfigV9(TEST_DIR);
+
+    // apply a migration, writing the snapshot
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:migrate`).catch(exitFailure);
+    expect(fs.existsSync(path.resolve(TEST_DIR, "schema.snapshot.json"))).toBe(true);
+    const { stdout } = await asyncExec(`node ${CLI_PATH} db:schema:check`).catch(exitFailure);
+    expect(stdout).toMatch(/The schema snapshot is up to date./);
+
+    // add a migration without updating the snapshot
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "9999999999999_posts.ts"),
+      `export async function up(db) { await db.schema.createTable("posts").addColumn("id", "integer").execute(); }`,
+    );
+    const res = await asyncExec(`node ${CLI_PATH} db:schema:check`).catch((e) => e);
+    expect(res.code).toBe(1);
+    expect(res.stdout).toMatch(/- Table "posts" is unexpected./);
+  });
+
+  test("warns instead of failing 'db:migrate' when the schema snapshot can't be written", async () => {
+    await setupKyselyxConfigV1(TEST_DIR);
+    await fs.ensureDir(path.resolve(TEST_DIR, "schema.snapshot.json"));
+
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    const { stdout } = await asyncExec(`node ${CLI_PATH} db:migrate`).catch(exitFailure);
+    expect(stdout).toMatch(/Could not update the schema files/);
+
+    const { stdout: status } = await asyncExec(`node ${CLI_PATH} db:migrate:status --json`).catch(exitFailure);
+    expect(JSON.parse(status).migrations).toMatchObject([{ status: "applied" }]);
+  });
+});
+
+describe("function 'generateTypes'", () => {
+  test("regenerates the types after migrating when 'types.onMigrate' is set", async () => {
+    await setupKyselyxConfigV10(TEST_DIR);
+
+    // apply a migration that creates a table
+    await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "1000_users.ts"),
+      `export async function up(db) { await db.schema.createTable("users").addColumn("id", "integer").execute(); }`,
+    );
+    await asyncExec(`node ${CLI_PATH} db:migrate`).catch(exitFailure);
+    expect(await fs.readFile(path.resolve(TEST_DIR, "src/db.ts"), "utf-8")).toMatch(/users: Users;/);
+
+    // regenerate the types on demand
+    await fs.rm(path.resolve(TEST_DIR, "src/db.ts"));
+    const { stdout } = await asyncExec(`node ${CLI_PATH} generate:types`).catch(exitFailure);
+    expect(stdout).toMatch(/Created types file: "src\/db.ts"/);
+    expect(fs.existsSync(path.resolve(TEST_DIR, "src/db.ts"))).toBe(true);
+  });
+});
+
+describe("function 'lint'", () => {
+  test("exits with a non-zero code when a pending migration drops a table", async () => {
+    await setupKyselyxConfigV1(TEST_DIR);
+
+    // create a migration that drops a table
+    await fs.ensureDir(path.resolve(TEST_DIR, "migrations"));
+    await fs.writeFile(
+      path.resolve(TEST_DIR, "migrations", "1000_drop_users.ts"),
+      `export async function up(db) { await db.schema.dropTable("users").ifExists().execute(); }`,
+    );
+
+    // lint the pending migrations
+    const res = await asyncExec(`node ${CLI_PATH} db:lint`).catch((e) => e);
+    expect(res.code).toBe(1);
+    expect(res.stdout).toMatch(/1000_drop_users\s+drop-table\s+error\s+Drops table "users"./);
+
+    // only fail on warnings
+    await fs.appendFile(
+      path.resolve(TEST_DIR, "migrations", "1000_drop_users.ts"),
+      "\n// kyselyx-lint-disable drop-table",
+    );
+    const { stdout } = await asyncExec(`node ${CLI_PATH} db:lint --fail-on warning`).catch(exitFailure);
+    expect(stdout).toMatch(/1 violation\(s\) were suppressed./);
+  });
+});
+
+describe("function 'status'", () => {
+  test("prints each migration as JSON with '--json'", async () => {
+    await setupKyselyxConfigV1(TEST_DIR);
+
+    // create migrations
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} generate:migration sample`).catch(exitFailure);
+
+    // apply the first migration
+    await asyncExec(`node ${CLI_PATH} db:migrate users`).catch(exitFailure);
+
+    // confirm the status of each migration
+    const { stdout } = await asyncExec(`node ${CLI_PATH} db:migrate:status --json`).catch(exitFailure);
+    const { migrations } = JSON.parse(stdout);
+    expect(migrations).toHaveLength(2);
+    expect(migrations[0]).toMatchObject({ label: "users", status: "applied", modified: false });
+    expect(migrations[0].executedAt).not.toBeNull();
+    expect(migrations[1]).toMatchObject({ label: "sample", status: "pending", executedAt: null, modified: false });
+  });
+});
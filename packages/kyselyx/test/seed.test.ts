@@ -766,7 +766,7 @@ describe("function 'undo'", () => {
     expect(appliedSeeds.find((m) => /\d+_peanut_butter_2/.test(m.name))).toBeUndefined();
 
     // undo seed
-    await asyncExec(`node ${CLI_PATH} db:seed:undo:all`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:seed:undo:all --yes`).catch(exitFailure);
     ({ appliedSeeds } = (await getSeeds(seeder)).match((i) => i, exitFailure));
 
     // confirm no seeds are appplied
@@ -1068,7 +1068,7 @@ describe("function 'undoAll'", () => {
     expect(appliedSeeds.find((m) => /\d+_peanut_butter_2/.test(m.name))).toBeUndefined();
 
     // undo all seeds
-    await asyncExec(`node ${CLI_PATH} db:seed:undo:all`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:seed:undo:all --yes`).catch(exitFailure);
     ({ appliedSeeds } = (await getSeeds(seeder)).match((i) => i, exitFailure));
 
     // confirm all seeds were dropped
@@ -1121,7 +1121,7 @@ describe("function 'undoAll'", () => {
     expect(appliedSeeds.find((m) => /\d+_peanut_butter_2/.test(m.name))).toBeUndefined();
 
     // undo all seeds
-    await asyncExec(`node ${CLI_PATH} db:seed:undo:all`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:seed:undo:all --yes`).catch(exitFailure);
     ({ appliedSeeds } = (await getSeeds(seeder)).match((i) => i, exitFailure));
 
     // confirm all seeds were dropped
@@ -1174,7 +1174,7 @@ describe("function 'undoAll'", () => {
     expect(appliedSeeds.find((m) => /\d+_peanut_butter_2/.test(m.name))).not.toBeUndefined();
 
     // undo all seeds
-    await asyncExec(`node ${CLI_PATH} db:seed:undo:all`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:seed:undo:all --yes`).catch(exitFailure);
     ({ appliedSeeds } = (await getSeeds(seeder)).match((i) => i, exitFailure));
 
     // confirm all seeds were dropped
@@ -1189,3 +1189,46 @@ describe("function 'undoAll'", () => {
     expect(appliedSeeds.find((m) => /\d+_peanut_butter_2/.test(m.name))).toBeUndefined();
   });
 });
+
+describe("function 'status'", () => {
+  test("prints each seed and its bound migration as JSON with '--json'", async () => {
+    await setupKyselyxConfigV1(TEST_DIR);
+
+    // create migrations & seeds
+    await asyncExec(`node ${CLI_PATH} generate:seed before`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} generate:seed users`).catch(exitFailure);
+
+    // apply migrations & seeds
+    await asyncExec(`node ${CLI_PATH} db:migrate`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:seed before`).catch(exitFailure);
+
+    // confirm the status of each seed
+    const { stdout } = await asyncExec(`node ${CLI_PATH} db:seed:status --json`).catch(exitFailure);
+    const { seeds } = JSON.parse(stdout);
+    expect(seeds).toHaveLength(2);
+    expect(seeds[0]).toMatchObject({ label: "before", status: "applied", migration: null });
+    expect(seeds[1]).toMatchObject({ label: "users", status: "pending", executedAt: null });
+    expect(seeds[1].migration).toMatch(/^\d+_users$/);
+  });
+
+  test("prints the seeds which are skipped in the current environment", async () => {
+    await setupKyselyxConfigV1(TEST_DIR);
+
+    // create a seed which only runs in production, before a seed which runs everywhere
+    await asyncExec(`node ${CLI_PATH} generate:migration users`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} generate:seed demo`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} generate:seed after`).catch(exitFailure);
+    const demoFile = (await fs.readdir(path.resolve(TEST_DIR, "seeds"))).find((f) => /\d+_demo\.ts/.test(f))!;
+    await fs.appendFile(path.resolve(TEST_DIR, "seeds", demoFile), `\nexport const environments = ["production"];`);
+
+    // apply the seeds, the production seed is not recorded
+    await asyncExec(`node ${CLI_PATH} db:migrate`).catch(exitFailure);
+    await asyncExec(`node ${CLI_PATH} db:seed`).catch(exitFailure);
+    const { stdout } = await asyncExec(`node ${CLI_PATH} db:seed:status --json`).catch(exitFailure);
+    const { seeds } = JSON.parse(stdout);
+    expect(seeds).toHaveLength(2);
+    expect(seeds[0]).toMatchObject({ label: "demo", status: "skipped", executedAt: null });
+    expect(seeds[1]).toMatchObject({ label: "after", status: "applied" });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, test } from "vitest";
+import { getSqlItemName, splitSqlStatements } from "../src/sql-files.js";
+
+describe("function 'splitSqlStatements'", () => {
+  test("splits on semicolons outside of strings, identifiers and comments", () => {
+    const contents = [
+      `insert into "a;b" values ('it''s; fine');`,
+      `-- comment; not a statement`,
+      `/* block; comment */ select 1;`,
+      `select 2`,
+    ].join("\n");
+    expect(splitSqlStatements(contents)).toEqual([
+      `insert into "a;b" values ('it''s; fine')`,
+      `-- comment; not a statement\n/* block; comment */ select 1`,
+      `select 2`,
+    ]);
+  });
+
+  test("keeps dollar-quoted blocks together and drops empty statements", () => {
+    const contents = `create function f() returns void as $body$ begin perform 1; end; $body$ language plpgsql;\n;\n-- done`;
+    expect(splitSqlStatements(contents)).toEqual([
+      `create function f() returns void as $body$ begin perform 1; end; $body$ language plpgsql`,
+    ]);
+  });
+});
+
+describe("function 'getSqlItemName'", () => {
+  test("returns the name of '.sql', '.up.sql' and '.down.sql' files", () => {
+    expect(getSqlItemName("1000_users.sql")).toBe("1000_users");
+    expect(getSqlItemName("1000_users.up.sql")).toBe("1000_users");
+    expect(getSqlItemName("1000_users.down.sql")).toBe("1000_users");
+    expect(getSqlItemName("1000_users.ts")).toBeUndefined();
+  });
+});
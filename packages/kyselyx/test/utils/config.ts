@@ -188,6 +188,170 @@ export async function setupKyselyxConfigV6(testDir: string) {
   };
 }
 
+/**
+ * Sets up a mock project with Kyselyx:
+ * - Creates 'kyselyx.config.ts' file in root.
+ * - Uses shared 'stores' and 'migrationsFolder'.
+ * - Defines 'development' and 'test' environments with their own 'stores' and 'seedsFolder'.
+ */
+export async function setupKyselyxConfigV7(testDir: string) {
+  const kyselyxContents = [
+    'import SQLite from "better-sqlite3";',
+    'import { Kysely, SqliteDialect } from "kysely";',
+    "",
+    "const config = {",
+    "  stores: {",
+    `    db: new Kysely({ dialect: new SqliteDialect({ database: new SQLite("${path.resolve(testDir, "test.db")}") }) }),`,
+    '    bucket: "shared",',
+    "  },",
+    '  migrationsFolder: ".kyselyx/migrations",',
+    "  environments: {",
+    "    development: {",
+    '      seedsFolder: ".kyselyx/seeds/development",',
+    "    },",
+    "    test: {",
+    "      stores: {",
+    `        db: new Kysely({ dialect: new SqliteDialect({ database: new SQLite("${path.resolve(testDir, "test-env.db")}") }) }),`,
+    "      },",
+    '      seedsFolder: ".kyselyx/seeds/test",',
+    "    },",
+    "  },",
+    "};",
+    "",
+    "export default config;",
+  ];
+  await fs.ensureDir(path.resolve(testDir));
+  await fs.ensureDir(path.resolve(testDir, ".kyselyx"));
+  await fs.writeFile(path.resolve(testDir, "kyselyx.config.ts"), kyselyxContents.join("\n"));
+
+  return {
+    configFile: path.resolve(testDir, "kyselyx.config.ts"),
+    migrationsFolder: path.resolve(testDir, ".kyselyx", "migrations"),
+    seedsFolder: path.resolve(testDir, ".kyselyx", "seeds"),
+  };
+}
+
+/**
+ * Sets up a mock project with Kyselyx:
+ * - Creates 'kyselyx.config.ts' file in root.
+ * - Uses implicit 'migrationsFolder'.
+ * - Uses implicit 'seedsFolder'.
+ * - Defines a protected 'production' environment.
+ */
+export async function setupKyselyxConfigV8(testDir: string) {
+  const kyselyxContents = [
+    'import SQLite from "better-sqlite3";',
+    'import { Kysely, SqliteDialect } from "kysely";',
+    "",
+    "const config = {",
+    "  stores: {",
+    `    db: new Kysely({ dialect: new SqliteDialect({ database: new SQLite("${path.resolve(testDir, "test.db")}") }) }),`,
+    "  },",
+    "  environments: {",
+    "    production: { protected: true },",
+    "  },",
+    "};",
+    "",
+    "export default config;",
+  ];
+  await fs.ensureDir(path.resolve(testDir));
+  await fs.writeFile(path.resolve(testDir, "kyselyx.config.ts"), kyselyxContents.join("\n"));
+
+  return {
+    configFile: path.resolve(testDir, "kyselyx.config.ts"),
+    migrationsFolder: path.resolve(testDir, "migrations"),
+    seedsFolder: path.resolve(testDir, "seeds"),
+  };
+}
+
+/**
+ * Sets up a mock project with Kyselyx:
+ * - Config has a 'scratchDb' for verifying migrations.
+ */
+export async function setupKyselyxConfigV9(testDir: string) {
+  const kyselyxContents = [
+    'import SQLite from "better-sqlite3";',
+    'import { Kysely, SqliteDialect } from "kysely";',
+    "",
+    "const config = {",
+    "  stores: {",
+    `    db: new Kysely({ dialect: new SqliteDialect({ database: new SQLite("${path.resolve(testDir, "test.db")}") }) }),`,
+    "  },",
+    `  scratchDb: new Kysely({ dialect: new SqliteDialect({ database: new SQLite("${path.resolve(testDir, "scratch.db")}") }) }),`,
+    "};",
+    "",
+    "export default config;",
+  ];
+  await fs.ensureDir(path.resolve(testDir));
+  await fs.writeFile(path.resolve(testDir, "kyselyx.config.ts"), kyselyxContents.join("\n"));
+
+  return {
+    configFile: path.resolve(testDir, "kyselyx.config.ts"),
+    migrationsFolder: path.resolve(testDir, "migrations"),
+    seedsFolder: path.resolve(testDir, "seeds"),
+  };
+}
+
+/**
+ * Sets up a mock project with Kyselyx:
+ * - Config generates the database types after migrating.
+ */
+export async function setupKyselyxConfigV10(testDir: string) {
+  const kyselyxContents = [
+    'import SQLite from "better-sqlite3";',
+    'import { Kysely, SqliteDialect } from "kysely";',
+    "",
+    "const config = {",
+    "  stores: {",
+    `    db: new Kysely({ dialect: new SqliteDialect({ database: new SQLite("${path.resolve(testDir, "test.db")}") }) }),`,
+    "  },",
+    '  types: { outFile: "src/db.ts", onMigrate: true },',
+    "};",
+    "",
+    "export default config;",
+  ];
+  await fs.ensureDir(path.resolve(testDir));
+  await fs.writeFile(path.resolve(testDir, "kyselyx.config.ts"), kyselyxContents.join("\n"));
+
+  return {
+    configFile: path.resolve(testDir, "kyselyx.config.ts"),
+    migrationsFolder: path.resolve(testDir, "migrations"),
+    seedsFolder: path.resolve(testDir, "seeds"),
+  };
+}
+
+/**
+ * Sets up a mock project with Kyselyx:
+ * - Connects to the database at 'DATABASE_URL', or 'test.db' when it is not set.
+ * - Exposes 'DATABASE_URL' as the 'url' store.
+ * - Uses explicit metadata table names.
+ */
+export async function setupKyselyxConfigV11(testDir: string) {
+  const kyselyxContents = [
+    'import SQLite from "better-sqlite3";',
+    'import { Kysely, SqliteDialect } from "kysely";',
+    "",
+    "const config = {",
+    "  stores: {",
+    `    db: new Kysely({ dialect: new SqliteDialect({ database: new SQLite(process.env.DATABASE_URL ?? "${path.resolve(testDir, "test.db")}") }) }),`,
+    "    url: process.env.DATABASE_URL,",
+    "  },",
+    '  migrationTableName: "app_migration",',
+    '  seedTableName: "app_seed",',
+    "};",
+    "",
+    "export default config;",
+  ];
+  await fs.ensureDir(path.resolve(testDir));
+  await fs.writeFile(path.resolve(testDir, "kyselyx.config.ts"), kyselyxContents.join("\n"));
+
+  return {
+    configFile: path.resolve(testDir, "kyselyx.config.ts"),
+    migrationsFolder: path.resolve(testDir, "migrations"),
+    seedsFolder: path.resolve(testDir, "seeds"),
+  };
+}
+
 /**
  * Sets up a BAD mock project with Kyselyx:
  * - Adds syntax errors in the TS file.